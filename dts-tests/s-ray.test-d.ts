@@ -1,16 +1,23 @@
-import { expectType } from 'tsd';
+import { expectError, expectType } from 'tsd';
 
 import {
   AttrDefinition,
+  Ref,
   Template,
+  WritableComputedRef,
   computed,
   defineBooleanAttr,
   defineElement,
   defineNumberAttr,
   defineProperty,
+  defineStore,
   defineStringAttr,
   html,
+  reactive,
+  readonly,
   ref,
+  sharedRef,
+  snapshot,
   watch,
 } from '@lyoyl/s-ray';
 
@@ -99,3 +106,78 @@ watch(double, (newValue, oldValue, onInvalidate) => {
   expectType<number | null>(oldValue);
   expectType<(cb: CallableFunction) => void>(onInvalidate);
 });
+
+// watch multiple sources
+watch([counter, double, () => String(counter.value)], (newValues, oldValues) => {
+  expectType<[number, number, string]>(newValues);
+  expectType<[number, number, string] | null>(oldValues);
+}, { immediate: true, once: true, flush: 'post' });
+
+// writable computed
+const writableDouble = computed({
+  get: () => counter.value * 2,
+  set: (value: number) => {
+    counter.value = value / 2;
+  },
+});
+expectType<WritableComputedRef<number>>(writableDouble);
+writableDouble.value = 4;
+watch(writableDouble, (newValue, oldValue) => {
+  expectType<number>(newValue);
+  expectType<number | null>(oldValue);
+});
+
+// readonly
+const readonlyCounter = readonly(counter);
+expectType<number>(readonlyCounter.value);
+watch(readonlyCounter, (newValue, oldValue) => {
+  expectType<number>(newValue);
+  expectType<number | null>(oldValue);
+});
+const readonlyState = readonly({ user: { name: 'foo' }, list: [1] });
+expectType<string>(readonlyState.user.name);
+expectType<readonly number[]>(readonlyState.list);
+
+// snapshot
+const snapshotState = snapshot(reactive({ counter, double, tags: new Set([ref('a')]), list: readonly([1]) }));
+expectType<number>(snapshotState.counter);
+expectType<number>(snapshotState.double);
+expectType<Set<string>>(snapshotState.tags);
+expectType<number[]>(snapshotState.list);
+
+// sharedRef
+expectType<Ref<number>>(sharedRef(new Worker('worker.js'), 'counter', 0));
+expectType<Ref<string>>(sharedRef(new BroadcastChannel('app'), 'name', ''));
+
+// defineStore
+const useCounterStore = defineStore('counter', () => {
+  const count = ref(0);
+  const double = computed(() => count.value * 2);
+  const increment = (step: number) => count.value += step;
+  return { count, double, increment };
+});
+const counterStore = useCounterStore();
+expectType<number>(counterStore.count);
+expectType<number>(counterStore.double);
+expectType<number>(counterStore.increment(1));
+expectType<{ count: number }>(counterStore.$state);
+counterStore.$patch({ count: 1 });
+counterStore.$patch(state => {
+  expectType<number>(state.count);
+});
+expectError(counterStore.double = 1);
+
+// The writable computeds of a store are writable, the readonly refs are not
+const useNameStore = defineStore('name', () => {
+  const name = ref('');
+  const upperName = computed({
+    get: () => name.value.toUpperCase(),
+    set: (value: string) => name.value = value.toLowerCase(),
+  });
+  return { name, upperName, readonlyName: readonly(name) };
+});
+const nameStore = useNameStore();
+nameStore.upperName = 'FOO';
+expectType<string>(nameStore.upperName);
+expectType<string>(nameStore.readonlyName);
+expectError(nameStore.readonlyName = 'foo');
@@ -0,0 +1,146 @@
+import { expect } from '@esm-bundle/chai';
+import { fake } from 'sinon';
+
+import { html } from './html.js';
+import { computed, watch } from './reactive.js';
+import { isReactive, reactive, toRaw } from './reactiveProxy.js';
+import { nextTick } from './scheduler.js';
+
+describe('Reactive collections', () => {
+  it('Map - get/has are tracked per key', async () => {
+    const entities = reactive(new Map<number, { name: string }>([[1, { name: 'foo' }]]));
+
+    const cb = fake();
+    watch(() => entities.get(1)?.name, cb);
+    const hasTwo = fake();
+    watch(() => entities.has(2), hasTwo);
+
+    entities.set(3, { name: 'baz' });
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+    expect(hasTwo.callCount).to.equal(0);
+
+    entities.set(2, { name: 'bar' });
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+    expect(hasTwo.callCount).to.equal(1);
+    expect(hasTwo.firstCall.args[0]).to.equal(true);
+
+    // Nested values are reactive as well
+    expect(isReactive(entities.get(1))).to.equal(true);
+    entities.get(1)!.name = 'qux';
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal('qux');
+
+    entities.delete(1);
+    await nextTick();
+    expect(cb.callCount).to.equal(2);
+    expect(cb.secondCall.args[0]).to.equal(undefined);
+  });
+
+  it('Map - size and iteration', async () => {
+    const map = reactive(new Map<string, number>());
+    const size = computed(() => map.size);
+    const sum = computed(() => [...map.values()].reduce((acc, value) => acc + value, 0));
+    const keys = fake(() => [...map.keys()].join(','));
+    const joinedKeys = computed(keys);
+
+    expect(size.value).to.equal(0);
+    expect(joinedKeys.value).to.equal('');
+
+    map.set('a', 1);
+    map.set('b', 2);
+    expect(size.value).to.equal(2);
+    expect(sum.value).to.equal(3);
+    expect(joinedKeys.value).to.equal('a,b');
+    expect(keys.callCount).to.equal(2);
+
+    // Changing a value doesn't affect the keys
+    map.set('a', 10);
+    expect(sum.value).to.equal(12);
+    expect(joinedKeys.value).to.equal('a,b');
+    expect(keys.callCount).to.equal(2);
+
+    map.clear();
+    expect(size.value).to.equal(0);
+    expect(sum.value).to.equal(0);
+    expect(joinedKeys.value).to.equal('');
+  });
+
+  it('Set - a getter reading has(id) only reruns when that id toggles', async () => {
+    const selected = reactive(new Set<number>());
+    const template = html`<p>${() => selected.has(1) ? 'selected' : 'unselected'}</p>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+    const p = container.querySelector('p')!;
+    expect(p.textContent).to.equal('unselected');
+
+    const cb = fake();
+    watch(() => selected.has(1), cb);
+
+    selected.add(2);
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+
+    selected.add(1);
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(p.textContent).to.equal('selected');
+
+    // Adding an existing item is a no-op
+    selected.add(1);
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+
+    selected.delete(1);
+    await nextTick();
+    expect(cb.callCount).to.equal(2);
+    expect(p.textContent).to.equal('unselected');
+  });
+
+  it('Set - forEach and iteration', async () => {
+    const set = reactive(new Set([1, 2]));
+    const cb = fake();
+    watch(() => {
+      let sum = 0;
+      set.forEach(value => sum += value);
+      return sum;
+    }, cb);
+    const items = computed(() => [...set]);
+
+    set.add(3);
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(6);
+    expect(items.value).to.eql([1, 2, 3]);
+  });
+
+  it('WeakMap - per key tracking', async () => {
+    const keyA = {};
+    const keyB = {};
+    const map = reactive(new WeakMap<object, number>());
+
+    const cb = fake();
+    watch(() => map.get(keyA), cb);
+
+    map.set(keyB, 1);
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+
+    map.set(keyA, 1);
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(1);
+
+    expect(toRaw(map).get(keyA)).to.equal(1);
+  });
+
+  it('reactive values are stored as raw values', () => {
+    const item = reactive({ id: 1 });
+    const set = reactive(new Set());
+    set.add(item);
+    expect(toRaw(set).has(toRaw(item))).to.equal(true);
+    expect(set.has(item)).to.equal(true);
+  });
+});
@@ -0,0 +1,138 @@
+import { ITERATE_KEY, MAP_KEY_ITERATE_KEY, TriggerType, toRaw, toReactive, trackKey, triggerKey } from './reactiveProxy.js';
+import { hasOwn } from './utils.js';
+
+type IterableCollection = Map<unknown, unknown> | Set<unknown>;
+type WeakCollection = WeakMap<object, unknown> | WeakSet<object>;
+type Collection = IterableCollection | WeakCollection;
+
+function getRawType(value: unknown) {
+  return Object.prototype.toString.call(value).slice(8, -1);
+}
+
+export function isCollection(value: unknown): value is Collection {
+  const type = getRawType(value);
+  return type === 'Map' || type === 'Set' || type === 'WeakMap' || type === 'WeakSet';
+}
+
+export function isMap(value: unknown): value is Map<unknown, unknown> {
+  return getRawType(value) === 'Map';
+}
+
+/**
+ * The methods of the collections rely on their internal slots, so they must be called on the raw collection,
+ * these instrumentations are called with `this` being the proxy.
+ */
+const collectionInstrumentations: Record<PropertyKey, any> = {
+  get(this: Map<unknown, unknown>, key: unknown) {
+    const target = toRaw(this);
+    const rawKey = toRaw(key);
+    trackKey(target, rawKey);
+    return toReactive(target.has(key) ? target.get(key) : target.get(rawKey));
+  },
+
+  has(this: IterableCollection, key: unknown) {
+    const target = toRaw(this);
+    const rawKey = toRaw(key);
+    trackKey(target, rawKey);
+    return target.has(key) || target.has(rawKey);
+  },
+
+  get size() {
+    const target = toRaw(this as unknown as IterableCollection);
+    trackKey(target, ITERATE_KEY);
+    return target.size;
+  },
+
+  add(this: Set<unknown>, value: unknown) {
+    const target = toRaw(this);
+    const rawValue = toRaw(value);
+    if (!target.has(rawValue)) {
+      target.add(rawValue);
+      triggerKey(target, TriggerType.Add, rawValue);
+    }
+    return this;
+  },
+
+  set(this: Map<unknown, unknown>, key: unknown, value: unknown) {
+    const target = toRaw(this);
+    const rawKey = toRaw(key);
+    const hadKey = target.has(rawKey);
+    const oldValue = target.get(rawKey);
+    const rawValue = toRaw(value);
+    target.set(rawKey, rawValue);
+    if (!hadKey) {
+      triggerKey(target, TriggerType.Add, rawKey);
+    } else if (!Object.is(rawValue, oldValue)) {
+      triggerKey(target, TriggerType.Set, rawKey);
+    }
+    return this;
+  },
+
+  delete(this: IterableCollection, key: unknown) {
+    const target = toRaw(this);
+    const rawKey = toRaw(key);
+    const result = target.delete(rawKey);
+    if (result) {
+      triggerKey(target, TriggerType.Delete, rawKey);
+    }
+    return result;
+  },
+
+  clear(this: IterableCollection) {
+    const target = toRaw(this);
+    const hadItems = target.size !== 0;
+    target.clear();
+    if (hadItems) {
+      triggerKey(target, TriggerType.Clear);
+    }
+  },
+
+  forEach(this: IterableCollection, callback: (...args: unknown[]) => unknown, thisArg?: unknown) {
+    const target = toRaw(this);
+    trackKey(target, ITERATE_KEY);
+    target.forEach((value: unknown, key: unknown) => {
+      callback.call(thisArg, toReactive(value), toReactive(key), this);
+    });
+  },
+};
+
+(['keys', 'values', 'entries', Symbol.iterator] as const).forEach(method => {
+  collectionInstrumentations[method] = function(this: IterableCollection) {
+    const target = toRaw(this);
+    const isPair = method === 'entries' || (method === Symbol.iterator && isMap(target));
+    // Map.prototype.keys() doesn't care about the values
+    trackKey(target, method === 'keys' && isMap(target) ? MAP_KEY_ITERATE_KEY : ITERATE_KEY);
+    const innerIterator = (target as any)[method]() as Iterator<unknown>;
+    return {
+      next() {
+        const { value, done } = innerIterator.next();
+        if (done) {
+          return { value, done };
+        }
+        return {
+          value: isPair ? [toReactive((value as unknown[])[0]), toReactive((value as unknown[])[1])] : toReactive(value),
+          done,
+        };
+      },
+      [Symbol.iterator]() {
+        return this;
+      },
+    };
+  };
+});
+
+export const collectionHandlers: ProxyHandler<any> = {
+  get(target, key, receiver) {
+    if (key === '__isReactive') {
+      return true;
+    }
+    if (key === '__raw') {
+      return target;
+    }
+    return Reflect.get(
+      hasOwn(collectionInstrumentations, key) && key in target ? collectionInstrumentations : target,
+      key,
+      receiver,
+    );
+  },
+};
@@ -0,0 +1,367 @@
+import { expect } from '@esm-bundle/chai';
+import { fake } from 'sinon';
+
+import { Subscribable, fromEvent, fromObservable, refHistory, sharedRef } from './composables.js';
+import { defineElement } from './defineElement.js';
+import { EffectScope, effectScope } from './effectScope.js';
+import { setErrorHandler } from './errorHandling.js';
+import { html } from './html.js';
+import { Observer, Ref, observableSymbol, ref, watch } from './reactive.js';
+import { reactive } from './reactiveProxy.js';
+import { nextTick } from './scheduler.js';
+
+function createSubject<T>() {
+  const observers = new Set<Observer<T>>();
+  const subject = {
+    subscribe: fake((observer: Observer<T>) => {
+      observers.add(observer);
+      return { unsubscribe: () => observers.delete(observer) };
+    }),
+    next(value: T) {
+      observers.forEach(observer => observer.next?.(value));
+    },
+    error(err: unknown) {
+      observers.forEach(observer => observer.error?.(err));
+    },
+    get observerCount() {
+      return observers.size;
+    },
+  };
+  return subject;
+}
+
+// The messages are delivered in the later tasks
+function deliverMessages() {
+  return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+describe('composables', () => {
+  describe('fromObservable', () => {
+    it('holds the initial value until the first emission', () => {
+      const subject = createSubject<number>();
+      const count = fromObservable(subject, 0);
+      expect(count.value).to.equal(0);
+
+      subject.next(1);
+      expect(count.value).to.equal(1);
+      subject.next(2);
+      expect(count.value).to.equal(2);
+    });
+
+    it('subscribes the observable returned by Symbol.observable', () => {
+      const subject = createSubject<string>();
+      const interop = {
+        subscribe: fake(),
+        [observableSymbol]: () => subject,
+      };
+      const name = fromObservable(interop as Subscribable<string>, '');
+
+      expect(interop.subscribe.callCount).to.equal(0);
+      expect(subject.subscribe.callCount).to.equal(1);
+      subject.next('foo');
+      expect(name.value).to.equal('foo');
+    });
+
+    it('unsubscribes when the element is disconnected', () => {
+      const subject = createSubject<number>();
+      let count!: Ref<number>;
+      const MyApp = defineElement({
+        name: 'from-observable-app',
+        setup() {
+          count = fromObservable(subject, 0);
+          return {
+            template: html`${() => count.value}`,
+          };
+        },
+      });
+
+      const el = new MyApp();
+      document.body.appendChild(el);
+      expect(subject.observerCount).to.equal(1);
+
+      el.remove();
+      expect(subject.observerCount).to.equal(0);
+    });
+
+    it('unsubscribes when the effect scope is stopped, the unsubscribe function is supported', () => {
+      const unsubscribe = fake();
+      const scope = effectScope();
+      scope.run(() => fromObservable({ subscribe: () => unsubscribe }, 0));
+
+      scope.stop();
+      expect(unsubscribe.callCount).to.equal(1);
+    });
+
+    it('hands the errors of the observable to the error handler', () => {
+      const handler = fake();
+      setErrorHandler(handler);
+      const subject = createSubject<number>();
+      const count = fromObservable(subject, 0);
+      const err = new Error('foo');
+
+      subject.error(err);
+      expect(handler.callCount).to.equal(1);
+      expect(handler.firstCall.args).to.deep.equal([err, 'fromObservable()']);
+      expect(count.value).to.equal(0);
+      setErrorHandler(null);
+    });
+  });
+
+  describe('fromEvent', () => {
+    it('holds the latest event, or what the map function returns for it', () => {
+      const target = new EventTarget();
+      const event = fromEvent(target, 'foo');
+      const type = fromEvent(target, 'foo', (e: CustomEvent<number>) => e.detail);
+      expect(event.value).to.equal(undefined);
+      expect(type.value).to.equal(undefined);
+
+      const e = new CustomEvent('foo', { detail: 1 });
+      target.dispatchEvent(e);
+      expect(event.value).to.equal(e);
+      expect(type.value).to.equal(1);
+    });
+
+    it('removes the listener when the element is disconnected', () => {
+      const target = new EventTarget();
+      const removeEventListener = fake();
+      target.removeEventListener = removeEventListener;
+      let size!: Ref<number | undefined>;
+      const MyApp = defineElement({
+        name: 'from-event-app',
+        setup() {
+          size = fromEvent(target, 'resize', () => 1);
+          return {
+            template: html``,
+          };
+        },
+      });
+
+      const el = new MyApp();
+      document.body.appendChild(el);
+      target.dispatchEvent(new Event('resize'));
+      expect(size.value).to.equal(1);
+
+      el.remove();
+      expect(removeEventListener.callCount).to.equal(1);
+      expect(removeEventListener.firstCall.args[0]).to.equal('resize');
+    });
+
+    it('removes the listener when the scope calling it inside the element is stopped', () => {
+      const target = new EventTarget();
+      const removeEventListener = fake();
+      target.removeEventListener = removeEventListener;
+      let scope!: EffectScope;
+      const MyApp = defineElement({
+        name: 'from-event-scope-app',
+        setup() {
+          scope = effectScope();
+          scope.run(() => fromEvent(target, 'resize'));
+          return {
+            template: html``,
+          };
+        },
+      });
+
+      const el = new MyApp();
+      document.body.appendChild(el);
+      scope.stop();
+      expect(removeEventListener.callCount).to.equal(1);
+      el.remove();
+      expect(removeEventListener.callCount).to.equal(1);
+    });
+  });
+
+  describe('refHistory', () => {
+    it('undoes and redoes the changes of a ref', () => {
+      const count = ref(0);
+      const history = refHistory(count);
+      expect(history.canUndo.value).to.equal(false);
+
+      count.value = 1;
+      count.value = 2;
+      expect(history.canUndo.value).to.equal(true);
+      expect(history.canRedo.value).to.equal(false);
+
+      history.undo();
+      expect(count.value).to.equal(1);
+      expect(history.canRedo.value).to.equal(true);
+      history.undo();
+      expect(count.value).to.equal(0);
+      expect(history.canUndo.value).to.equal(false);
+      history.undo();
+      expect(count.value).to.equal(0);
+
+      history.redo();
+      expect(count.value).to.equal(1);
+
+      // A new change drops the redo steps
+      count.value = 3;
+      expect(history.canRedo.value).to.equal(false);
+      history.undo();
+      expect(count.value).to.equal(1);
+    });
+
+    it('records the nested changes of a reactive object', () => {
+      const form = reactive({ name: 'foo', tags: ['a'] as string[], extra: undefined as string | undefined });
+      const history = refHistory(form);
+
+      form.name = 'bar';
+      form.tags.push('b');
+      form.extra = 'baz';
+
+      history.undo();
+      expect(form.extra).to.equal(undefined);
+      history.undo();
+      expect(form.tags).to.eql(['a']);
+      history.undo();
+      expect(form.name).to.equal('foo');
+
+      history.redo();
+      expect(form.name).to.equal('bar');
+      // The snapshots are not altered by mutating the object later
+      form.tags.push('c');
+      history.undo();
+      expect(form.tags).to.eql(['a']);
+    });
+
+    it('drops the oldest steps beyond the capacity, and clears the steps', () => {
+      const count = ref(0);
+      const history = refHistory(count, { capacity: 2 });
+      count.value = 1;
+      count.value = 2;
+      count.value = 3;
+
+      history.undo();
+      history.undo();
+      expect(history.canUndo.value).to.equal(false);
+      expect(count.value).to.equal(1);
+
+      history.clear();
+      expect(history.canRedo.value).to.equal(false);
+      expect(count.value).to.equal(1);
+    });
+
+    it('records the changes made inside batch() as a single step', () => {
+      const point = ref({ x: 0, y: 0 });
+      const history = refHistory(point, { deep: true });
+      history.batch(() => {
+        point.value.x = 1;
+        point.value.y = 1;
+      });
+
+      history.undo();
+      expect(point.value).to.eql({ x: 0, y: 0 });
+      expect(history.canUndo.value).to.equal(false);
+    });
+
+    it('stops recording when the element is disconnected', () => {
+      const count = ref(0);
+      let history!: ReturnType<typeof refHistory>;
+      const MyApp = defineElement({
+        name: 'ref-history-app',
+        setup() {
+          history = refHistory(count);
+          return {
+            template: html``,
+          };
+        },
+      });
+
+      const el = new MyApp();
+      document.body.appendChild(el);
+      count.value = 1;
+      expect(history.canUndo.value).to.equal(true);
+
+      el.remove();
+      count.value = 2;
+      expect(history.canUndo.value).to.equal(false);
+    });
+  });
+
+  describe('sharedRef', () => {
+    const channels: { close(): void }[] = [];
+    function createPorts() {
+      const { port1, port2 } = new MessageChannel();
+      channels.push(port1, port2);
+      return [port1, port2];
+    }
+
+    afterEach(() => {
+      channels.forEach(channel => channel.close());
+      channels.length = 0;
+    });
+
+    it('synchronizes the value over a MessagePort', async () => {
+      const [port1, port2] = createPorts();
+      const a = sharedRef(port1, 'count', 0);
+      const b = sharedRef(port2, 'count', 0);
+      const other = sharedRef(port2, 'other', 0);
+      const cb = fake();
+      watch(b, cb);
+
+      a.value = 1;
+      await deliverMessages();
+      await nextTick();
+      expect(b.value).to.equal(1);
+      expect(other.value).to.equal(0);
+      expect(cb.callCount).to.equal(1);
+
+      b.value = { list: reactive([1]) } as any;
+      await deliverMessages();
+      expect(a.value).to.eql({ list: [1] });
+    });
+
+    it('sends the current value to the late joiners', async () => {
+      const first = new BroadcastChannel('shared-ref-spec');
+      channels.push(first);
+      const a = sharedRef(first, 'count', 0);
+      a.value = 2;
+      await deliverMessages();
+
+      const second = new BroadcastChannel('shared-ref-spec');
+      channels.push(second);
+      const b = sharedRef(second, 'count', 0);
+      expect(b.value).to.equal(0);
+      await deliverMessages();
+      expect(b.value).to.equal(2);
+    });
+
+    it('resolves the concurrent writes to the same value on every side', async () => {
+      const [port1, port2] = createPorts();
+      const a = sharedRef(port1, 'name', '');
+      const b = sharedRef(port2, 'name', '');
+
+      a.value = 'foo';
+      b.value = 'bar';
+      await deliverMessages();
+      expect(a.value).to.equal(b.value);
+
+      // A write made after seeing the other side's write always wins
+      a.value = 'baz';
+      await deliverMessages();
+      expect(b.value).to.equal('baz');
+    });
+
+    it('stops listening when the element is disconnected', async () => {
+      const [port1, port2] = createPorts();
+      const a = sharedRef(port1, 'count', 0);
+      let b!: Ref<number>;
+      const MyApp = defineElement({
+        name: 'shared-ref-app',
+        setup() {
+          b = sharedRef(port2, 'count', 0);
+          return {
+            template: html``,
+          };
+        },
+      });
+
+      const el = new MyApp();
+      document.body.appendChild(el);
+      el.remove();
+      a.value = 1;
+      await deliverMessages();
+      expect(b.value).to.equal(0);
+    });
+  });
+});
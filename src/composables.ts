@@ -0,0 +1,326 @@
+import { getCurrentScope } from './effectScope.js';
+import { handleError } from './errorHandling.js';
+import {
+  ComputedRef,
+  Observer,
+  Ref,
+  Subscription,
+  batch,
+  computed,
+  customRef,
+  observableSymbol,
+  shallowRef,
+  snapshot,
+  watch,
+} from './reactive.js';
+import { toRaw } from './reactiveProxy.js';
+import { Priority } from './scheduler.js';
+import { isArray, isObject } from './utils.js';
+
+/**
+ * @public
+ * Anything that can be subscribed like an observable, e.g. an RxJS Observable.
+ * The objects implementing Symbol.observable are subscribed through the observable they return.
+ */
+export interface Subscribable<T> {
+  subscribe(observer: Observer<T>): Subscription | (() => void);
+}
+
+/**
+ * @public
+ * Create a ref holding the latest value emitted by the observable, it holds the initial value until the first emission.
+ * The observable is unsubscribed when the current effect scope is stopped, e.g. the element calling it in setup()
+ * is disconnected.
+ */
+export function fromObservable<T>(observable: Subscribable<T>, initialValue: T): Ref<T> {
+  // The emitted values are usually immutable snapshots, there is no need to make them deeply reactive
+  const value = shallowRef(initialValue);
+  const interop = (observable as any)[observableSymbol];
+  const source: Subscribable<T> = typeof interop === 'function' ? interop.call(observable) : observable;
+  const subscription = source.subscribe({
+    next(newValue) {
+      value.value = newValue;
+    },
+    error(err) {
+      handleError(err, 'fromObservable()');
+    },
+  });
+  getCurrentScope()?.addCleanup(() => {
+    typeof subscription === 'function' ? subscription() : subscription.unsubscribe();
+  });
+  return value;
+}
+
+/**
+ * @public
+ * Create a ref holding the latest event of the given type dispatched on the target, it is undefined until then.
+ * The listener is removed when the current effect scope is stopped, e.g. the element calling it in setup()
+ * is disconnected.
+ */
+export function fromEvent<E extends Event = Event>(target: EventTarget, type: string): Ref<E | undefined>;
+/**
+ * @public
+ * The ref holds what the map function returns for the latest event,
+ * e.g. `fromEvent(window, 'resize', () => window.innerWidth)`.
+ */
+export function fromEvent<T, E extends Event = Event>(
+  target: EventTarget,
+  type: string,
+  map: (event: E) => T,
+): Ref<T | undefined>;
+export function fromEvent(target: EventTarget, type: string, map: (event: Event) => unknown = event => event) {
+  const value = shallowRef<unknown>(undefined);
+  const listener = (event: Event) => {
+    value.value = map(event);
+  };
+  target.addEventListener(type, listener);
+  getCurrentScope()?.addCleanup(() => {
+    target.removeEventListener(type, listener);
+  });
+  return value;
+}
+
+/**
+ * @public
+ */
+export interface RefHistoryOptions {
+  /**
+   * The maximum number of undo steps to keep, the oldest ones are dropped. Defaults to Infinity.
+   */
+  capacity?: number;
+  /**
+   * Record the mutations of the nested properties as well, the snapshots are deep copies made by structuredClone().
+   * It is always on for a reactive object.
+   */
+  deep?: boolean;
+}
+
+/**
+ * @public
+ */
+export interface RefHistory {
+  canUndo: ComputedRef<boolean>;
+  canRedo: ComputedRef<boolean>;
+  undo(): void;
+  redo(): void;
+  /**
+   * Drop all the undo and redo steps, the current value is kept.
+   */
+  clear(): void;
+  /**
+   * Run the function, all the changes it makes are recorded as a single history step.
+   */
+  batch(fn: () => void): void;
+  /**
+   * Stop recording, it is called automatically when the current effect scope is stopped.
+   */
+  dispose(): void;
+}
+
+/**
+ * Replace the contents of a reactive object with the ones of the snapshot, keeping its identity.
+ */
+function assignContents(target: any, snapshot: any) {
+  if (isArray(target)) {
+    target.splice(0, target.length, ...snapshot);
+  } else if (target instanceof Map) {
+    target.clear();
+    snapshot.forEach((value: unknown, key: unknown) => target.set(key, value));
+  } else if (target instanceof Set) {
+    target.clear();
+    snapshot.forEach((value: unknown) => target.add(value));
+  } else {
+    Object.keys(target).forEach(key => !(key in snapshot) && delete target[key]);
+    Object.assign(target, snapshot);
+  }
+}
+
+/**
+ * @public
+ * Record the changes of a ref or a reactive object, so that they can be undone and redone.
+ * Every change is a history step, unless several changes are made inside batch().
+ */
+export function refHistory<T>(source: Ref<T> | T, options: RefHistoryOptions = {}): RefHistory {
+  const { capacity = Infinity } = options;
+  const isRefSource = source instanceof Ref;
+  // The identity of a reactive object never changes, only its nested properties are worth recording
+  const deep = options.deep || !isRefSource;
+  const takeSnapshot = (value: T): T => deep ? structuredClone(toRaw(value)) : value;
+
+  const undoStack = shallowRef<T[]>([]);
+  const redoStack = shallowRef<T[]>([]);
+  let current!: T;
+  let hasSnapshot = false;
+  let isRestoring = false;
+
+  const unwatch = watch(() => isRefSource ? source.value : source as T, value => {
+    // The changes made by undo() and redo() are not new history steps
+    if (isRestoring) {
+      return;
+    }
+    if (hasSnapshot) {
+      const steps = [...undoStack.value, current];
+      undoStack.value = steps.length > capacity ? steps.slice(steps.length - capacity) : steps;
+      redoStack.value = [];
+    }
+    current = takeSnapshot(value);
+    hasSnapshot = true;
+  }, {
+    deep,
+    // Record every change right away, the changes made within a batch are recorded once
+    priority: Priority.Immediate,
+  });
+
+  function restore(snapshot: T) {
+    isRestoring = true;
+    try {
+      // The snapshot is copied again, so that mutating the source later doesn't alter the history
+      const value = deep ? structuredClone(snapshot) : snapshot;
+      batch(() => isRefSource ? (source.value = value) : assignContents(source, value));
+    } finally {
+      isRestoring = false;
+    }
+    current = snapshot;
+  }
+
+  function undo() {
+    const steps = undoStack.value;
+    if (steps.length === 0) {
+      return;
+    }
+    undoStack.value = steps.slice(0, -1);
+    redoStack.value = [current, ...redoStack.value];
+    restore(steps.at(-1)!);
+  }
+
+  function redo() {
+    const steps = redoStack.value;
+    if (steps.length === 0) {
+      return;
+    }
+    redoStack.value = steps.slice(1);
+    undoStack.value = [...undoStack.value, current];
+    restore(steps[0]);
+  }
+
+  function clear() {
+    undoStack.value = [];
+    redoStack.value = [];
+  }
+
+  function dispose() {
+    unwatch();
+    clear();
+  }
+
+  getCurrentScope()?.addCleanup(dispose);
+
+  return {
+    canUndo: computed(() => undoStack.value.length > 0),
+    canRedo: computed(() => redoStack.value.length > 0),
+    undo,
+    redo,
+    clear,
+    batch,
+    dispose,
+  };
+}
+
+/**
+ * @public
+ * The common part of MessagePort, Worker, BroadcastChannel and the global scope of a worker.
+ */
+export interface SharedRefChannel {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  /**
+   * A MessagePort doesn't deliver the messages until it is started.
+   */
+  start?(): void;
+}
+
+// Several shared refs can use the same channel, the messages are told apart by their keys
+const SHARED_REF_KEY = '__sRaySharedRef';
+
+interface SharedRefMessage {
+  [SHARED_REF_KEY]: string;
+  type: 'request' | 'set';
+  value?: unknown;
+  version?: number;
+  writer?: string;
+}
+
+/**
+ * @public
+ * Create a ref whose value is synchronized with the shared refs of the same key on the other side of the channel,
+ * e.g. in a Web Worker, an iframe or another tab. Only reassigning `.value` is synchronized, the value is sent
+ * as a snapshot through the structured clone. When two sides write at the same time, the last writer wins.
+ * A new shared ref asks the other sides for the current value, it holds the initial value until then.
+ */
+export function sharedRef<T>(channel: SharedRefChannel, key: string, initialValue: T): Ref<T> {
+  // Every write is versioned, the version is one more than the latest version ever seen,
+  // so the sides agree on the latest write, the ties are broken by the writer ids
+  const writerId = Math.random().toString(36).slice(2);
+  let value = initialValue;
+  let version = 0;
+  let writer = '';
+  let triggerValue!: () => void;
+
+  function post(message: Omit<SharedRefMessage, typeof SHARED_REF_KEY>) {
+    channel.postMessage({ [SHARED_REF_KEY]: key, ...message });
+  }
+
+  function postValue() {
+    post({ type: 'set', value: snapshot(value), version, writer });
+  }
+
+  function onMessage(event: MessageEvent) {
+    const message: SharedRefMessage = event.data;
+    if (!isObject(message) || message[SHARED_REF_KEY] !== key) {
+      return;
+    }
+    if (message.type === 'request') {
+      // Nothing to share until the value has been written
+      version > 0 && postValue();
+      return;
+    }
+    const isNewer = message.version! > version || (message.version === version && message.writer! > writer);
+    if (isNewer) {
+      value = message.value as T;
+      version = message.version!;
+      writer = message.writer!;
+      triggerValue();
+    }
+  }
+
+  const shared = customRef<T>((track, trigger) => {
+    triggerValue = trigger;
+    return {
+      get() {
+        track();
+        return value;
+      },
+      set(newValue) {
+        if (Object.is(newValue, value)) {
+          return;
+        }
+        value = newValue;
+        version++;
+        writer = writerId;
+        postValue();
+        trigger();
+      },
+    };
+  });
+
+  channel.addEventListener('message', onMessage);
+  channel.start?.();
+  post({ type: 'request' });
+
+  getCurrentScope()?.addCleanup(() => {
+    channel.removeEventListener('message', onMessage);
+  });
+
+  return shared;
+}
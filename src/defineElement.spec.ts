@@ -2,8 +2,9 @@ import { expect } from '@esm-bundle/chai';
 import { fake } from 'sinon';
 
 import { defineElement } from './defineElement.js';
+import { onScopeDispose } from './effectScope.js';
 import { html } from './html.js';
-import { ref, watch } from './reactive.js';
+import { ref, watch, watchEffect } from './reactive.js';
 import { nextTick } from './scheduler.js';
 
 beforeEach(() => {
@@ -85,4 +86,112 @@ describe('defineElement', () => {
     el.$emit('my-event');
     expect(cb.callCount).to.equal(1);
   });
+
+  it('watchEffect() is disposed when the element is disconnected', async () => {
+    const counter = ref(0);
+    const effect = fake(() => counter.value);
+
+    const MyElement = defineElement({
+      name: 'my-element2',
+      setup() {
+        watchEffect(effect);
+        return {
+          template: html``,
+        };
+      },
+    });
+
+    const el = new MyElement();
+    document.body.appendChild(el);
+    expect(effect.callCount).to.equal(1);
+
+    counter.value++;
+    await nextTick();
+    expect(effect.callCount).to.equal(2);
+
+    el.remove();
+    counter.value++;
+    await nextTick();
+    expect(effect.callCount).to.equal(2);
+  });
+
+  it('the setup() function runs inside an effect scope of the element', async () => {
+    const cleanup = fake();
+    const registeredCleanup = fake();
+
+    const MyElement = defineElement({
+      name: 'my-element3',
+      setup(hostElement) {
+        onScopeDispose(cleanup);
+        hostElement.registerCleanup(registeredCleanup);
+        return {
+          template: html`<p>content</p>`,
+        };
+      },
+    });
+
+    const el = new MyElement();
+    document.body.appendChild(el);
+    expect(cleanup.callCount).to.equal(0);
+
+    el.remove();
+    expect(cleanup.callCount).to.equal(1);
+    expect(registeredCleanup.callCount).to.equal(1);
+
+    // Re-connecting the element sets it up again
+    document.body.appendChild(el);
+    expect(el.shadowRoot!.querySelectorAll('p').length).to.equal(1);
+    el.remove();
+    expect(cleanup.callCount).to.equal(2);
+    expect(registeredCleanup.callCount).to.equal(2);
+  });
+
+  it('a disconnected element no longer subscribes the global refs', async () => {
+    const globalCount = ref(0);
+    const getter = fake(() => globalCount.value);
+    const MyElement = defineElement({
+      name: 'my-element4',
+      setup() {
+        return {
+          template: html`<p>${getter}</p>`,
+        };
+      },
+    });
+
+    const el = new MyElement();
+    document.body.appendChild(el);
+    expect(getter.callCount).to.equal(1);
+
+    el.remove();
+    globalCount.value = 1;
+    await nextTick();
+    expect(getter.callCount).to.equal(1);
+
+    document.body.appendChild(el);
+    expect(el.shadowRoot!.querySelector('p')!.textContent).to.equal('1');
+  });
+
+  it('onTrack and onTrigger options of an element', async () => {
+    const count = ref(0);
+    const onTrack = fake();
+    const onTrigger = fake();
+    const MyElement = defineElement({
+      name: 'my-element5',
+      onTrack,
+      onTrigger,
+      setup() {
+        return {
+          template: html`<p>${() => count.value}</p>`,
+        };
+      },
+    });
+
+    document.body.appendChild(new MyElement());
+    expect(onTrack.callCount).to.equal(1);
+    expect(onTrack.firstCall.args[0].source).to.equal(count);
+    count.value = 1;
+    expect(onTrigger.callCount).to.equal(1);
+    expect(onTrigger.firstCall.args[0].specifier).to.equal(onTrack.firstCall.args[0].specifier);
+    await nextTick();
+  });
 });
@@ -1,7 +1,9 @@
 import { AttrDefinition, ExtractAttrNames, ExtractPropertyFromAttrDefinitions } from './defineAttributes.js';
 import { ExtractPropertiesFromPropDefinitions, PropDefinition } from './defineProperty.js';
+import { EffectScope, effectScope } from './effectScope.js';
+import { handleError } from './errorHandling.js';
 import { Template } from './html.js';
-import { ref } from './reactive.js';
+import { DebuggerOptions, ref } from './reactive.js';
 import { customElements } from './ssr/customElements.js';
 import { SRayHTMLElement } from './ssr/HTMLElement.js';
 import { error } from './utils.js';
@@ -40,7 +42,8 @@ export class SRayElement<
 > extends SRayHTMLElement {
   [key: string]: any;
 
-  #cleanups: Set<CallableFunction> = new Set();
+  // Collects the watchers and computeds created by the element, it is renewed every time the element is connected
+  #scope: EffectScope | null = null;
   #setupResult: SetupResult | null = null;
 
   #attrs: Record<string, AttrDefinition> = {};
@@ -72,18 +75,31 @@ export class SRayElement<
   }
 
   connectedCallback(this: ElementInstance<AttrDefinitions, PropDefinitions>) {
+    // Elements have their own lifecycle, their scopes should not be stopped by the scope of their parent element
+    this.#scope = effectScope(true);
     setCurrentInstance(this);
-    this.#initAttrs();
-    this.#setupResult = this.options.setup(this);
-    if (!__SSR__) {
-      if (!this.#hasShadowRoot) {
-        this.#setupResult.template.mountTo(this.shadowRoot!);
-      } else {
-        this.#setupResult.template.hydrate([...this.internals.shadowRoot!.childNodes]);
-      }
-      this.#connectedCbs.forEach(cb => cb());
+    try {
+      this.#scope.run(() => {
+        this.#initAttrs();
+        this.#setupResult = this.options.setup(this);
+        if (!__SSR__) {
+          __ENV__ === 'development' && this.#setupResult.template.setDebuggerOptions(this.options);
+          if (!this.#hasShadowRoot) {
+            this.#setupResult.template.mountTo(this.shadowRoot!);
+          } else {
+            this.#setupResult.template.hydrate([...this.internals.shadowRoot!.childNodes]);
+            // The server rendered nodes are taken over by the template, re-connecting mounts a new one
+            this.#hasShadowRoot = false;
+          }
+          this.#connectedCbs.forEach(cb => cb());
+        }
+      });
+    } catch (err) {
+      handleError(err, 'setup()');
+    } finally {
+      // An error thrown by setup() must not leave the element as the current instance of the next elements
+      recoverCurrentInstance();
     }
-    recoverCurrentInstance();
   }
 
   #initAttrs<
@@ -105,11 +121,13 @@ export class SRayElement<
   }
 
   disconnectedCallback() {
-    this.#cleanups.forEach(cleanup => cleanup());
+    this.#scope?.stop();
     this.#disconnectedCbs.forEach(cb => cb());
-    this.#cleanups.clear();
     this.#connectedCbs.clear();
     this.#disconnectedCbs.clear();
+    // Re-connecting runs setup() again, unmounting the template releases the refs it reads,
+    // otherwise a global ref would keep the removed element alive
+    this.#setupResult?.template.unmount();
   }
 
   attributeChangedCallback<
@@ -137,8 +155,11 @@ export class SRayElement<
   }
 
   registerCleanup(cleanup: CallableFunction) {
-    this.#cleanups.add(cleanup);
-    this.#setupResult?.template.unmount();
+    if (!this.#scope?.isActive) {
+      __ENV__ === 'development' && error('registerCleanup must be called while the element is connected.');
+      return;
+    }
+    this.#scope.addCleanup(cleanup);
   }
 
   $emit(event: string, detail: any = null) {
@@ -163,7 +184,7 @@ export class SRayElement<
 export interface ComponentOptions<
   AttrDefinitions extends AttrDefinition[],
   PropDefinitions extends PropDefinition[],
-> {
+> extends DebuggerOptions {
   name: string;
   attrs?: AttrDefinitions;
   props?: PropDefinitions;
@@ -0,0 +1,159 @@
+import { expect } from '@esm-bundle/chai';
+import { fake } from 'sinon';
+
+import { each } from './each.js';
+import { effectScope, onScopeDispose } from './effectScope.js';
+import { html } from './html.js';
+import { ReadonlyRef, ref } from './reactive.js';
+import { reactive, toRaw } from './reactiveProxy.js';
+import { nextTick } from './scheduler.js';
+
+function getTexts(container: HTMLElement) {
+  return [...container.querySelectorAll('li')].map(li => li.textContent);
+}
+
+describe('each', () => {
+  it('renders every item once, the mutations of the list only insert, move and remove the items', async () => {
+    const list = reactive([{ text: 'a' }, { text: 'b' }, { text: 'c' }]);
+    const render = fake((item: { text: string }) => html`<li>${() => item.text}</li>`);
+    const template = html`<ul>${each(list, render)}</ul>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+    expect(getTexts(container)).to.eql(['a', 'b', 'c']);
+    const [a, b, c] = container.querySelectorAll('li');
+
+    list.push({ text: 'd' });
+    await nextTick();
+    expect(getTexts(container)).to.eql(['a', 'b', 'c', 'd']);
+    expect(render.callCount).to.equal(4);
+
+    list.splice(1, 1);
+    await nextTick();
+    expect(getTexts(container)).to.eql(['a', 'c', 'd']);
+
+    list.sort((x, y) => y.text.localeCompare(x.text));
+    await nextTick();
+    expect(getTexts(container)).to.eql(['d', 'c', 'a']);
+
+    list[1] = { text: 'e' };
+    await nextTick();
+    expect(getTexts(container)).to.eql(['d', 'e', 'a']);
+    expect(render.callCount).to.equal(5);
+
+    const items = container.querySelectorAll('li');
+    expect(items[2]).to.equal(a);
+    expect([...items]).not.to.include(b);
+    expect([...items]).not.to.include(c);
+  });
+
+  it('applies the changes made in place as they are, the template does not depend on the items', async () => {
+    const list = reactive(['a', 'b', 'c']);
+    const render = fake((item: string, index: ReadonlyRef<number>) => html`<li>${() => `${index.value}-${item}`}</li>`);
+    const template = html`<ul>${each(list, render)}</ul>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+    expect(template.getDependencies().some(dependency => dependency.source === toRaw(list))).to.equal(false);
+
+    list.push('d');
+    list.unshift('e');
+    list.splice(2, 1, 'f', 'g');
+    await nextTick();
+    expect(getTexts(container)).to.eql(['0-e', '1-a', '2-f', '3-g', '4-c', '5-d']);
+    expect(render.args.map(args => args[0])).to.eql(['a', 'b', 'c', 'd', 'e', 'f', 'g']);
+
+    list.pop();
+    list.shift();
+    list[1] = 'h';
+    list.length = 3;
+    await nextTick();
+    expect(getTexts(container)).to.eql(['0-a', '1-h', '2-g']);
+    expect(render.lastCall.args[0]).to.equal('h');
+    expect(template.getDependencies().some(dependency => dependency.source === toRaw(list))).to.equal(false);
+  });
+
+  it('renders the items for every mounted clone of a template, and again when it is mounted again', async () => {
+    const list = reactive(['a']);
+    const disposed = fake();
+    const render = fake((item: string) => {
+      onScopeDispose(() => disposed(item));
+      return html`<li>${item}</li>`;
+    });
+    const template = html`<ul>${each(list, render)}</ul>`;
+    const clone = template.clone();
+    const container = document.createElement('div');
+    const cloneContainer = document.createElement('div');
+    template.mountTo(container);
+    clone.mountTo(cloneContainer);
+
+    list.push('b');
+    await nextTick();
+    expect(getTexts(container)).to.eql(['a', 'b']);
+    expect(getTexts(cloneContainer)).to.eql(['a', 'b']);
+    expect(render.callCount).to.equal(4);
+
+    clone.unmount();
+    expect(disposed.args).to.eql([['a'], ['b']]);
+    list.push('c');
+    await nextTick();
+    expect(getTexts(container)).to.eql(['a', 'b', 'c']);
+    expect(render.callCount).to.equal(5);
+
+    clone.mountTo(cloneContainer);
+    expect(getTexts(cloneContainer)).to.eql(['a', 'b', 'c']);
+    expect(render.callCount).to.equal(8);
+  });
+
+  it('editing an item only re-runs the getters of its own template', async () => {
+    const list = reactive([{ text: 'a' }, { text: 'b' }]);
+    const getters = list.map(() => fake());
+    const template = html`<ul>${
+      each(list, (item, index) =>
+        html`<li>${() => {
+          getters[index.value](item.text);
+          return item.text;
+        }}</li>`)
+    }</ul>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+
+    list[1].text = 'c';
+    await nextTick();
+    expect(getTexts(container)).to.eql(['a', 'c']);
+    expect(getters[0].callCount).to.equal(1);
+    expect(getters[1].callCount).to.equal(2);
+  });
+
+  it('updates the indexes of the moved items', async () => {
+    const list = ref(['a', 'b', 'a']);
+    const template = html`<ul>${each(list, (item, index) => html`<li>${() => `${index.value}-${item}`}</li>`)}</ul>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+    expect(getTexts(container)).to.eql(['0-a', '1-b', '2-a']);
+
+    list.value = ['c', ...list.value];
+    await nextTick();
+    expect(getTexts(container)).to.eql(['0-c', '1-a', '2-b', '3-a']);
+  });
+
+  it('stops the scopes of the removed items, and all of them when the scope calling each() is stopped', async () => {
+    const list = reactive(['a', 'b', 'c']);
+    const disposed = fake();
+    const scope = effectScope();
+    const getter = scope.run(() =>
+      each(list, item => {
+        onScopeDispose(() => disposed(item));
+        return html`<li>${item}</li>`;
+      })
+    )!;
+    const template = html`<ul>${getter}</ul>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+
+    list.shift();
+    await nextTick();
+    expect(disposed.args).to.eql([['a']]);
+
+    scope.stop();
+    expect(disposed.args).to.eql([['a'], ['b'], ['c']]);
+  });
+});
@@ -0,0 +1,210 @@
+import { EffectScope, effectScope, getCurrentScope } from './effectScope.js';
+import { Template } from './html.js';
+import { ComputedRef, Deps, ReadonlyRef, Ref, readonly, ref, track, trigger, untrack } from './reactive.js';
+import { ArraySplice, isReactive, observeArray, toRaw, toReactive } from './reactiveProxy.js';
+import { isArray } from './utils.js';
+
+/**
+ * @public
+ */
+export type EachSource<T> = T[] | Ref<T[]> | ComputedRef<T[]> | (() => T[]);
+
+interface ListEntry {
+  // The raw item, it identifies the entry when the list is rendered again as a whole
+  key: unknown;
+  template: Template;
+  index: Ref<number>;
+  // Collects the watchers and computeds created by rendering the item
+  scope: EffectScope;
+}
+
+/**
+ * The templates inserted and removed at the given index of a list.
+ */
+export interface TemplateSplice {
+  index: number;
+  removed: Template[];
+  added: Template[];
+}
+
+/**
+ * Either every template of the list, to be diffed with the rendered ones, or only the splices applied to them.
+ */
+export type ListPatch = { templates: Template[], splices?: never } | { splices: TemplateSplice[], templates?: never };
+
+/**
+ * Renders the items of a list for a single template, the clones of a template share the getters of their
+ * dynamic parts, but every mounted one must own its items.
+ */
+export class ListRenderer<T> {
+  #source: EachSource<T>;
+  #render: (item: T, index: ReadonlyRef<number>) => Template;
+  #onDispose: () => void;
+  #entries: ListEntry[] = [];
+  // The raw array the entries are rendered from
+  #items: unknown[] | null = null;
+  // The changes made to the array in place since the last render, null if it must be rendered as a whole
+  #splices: ArraySplice[] | null = null;
+  #unobserve: (() => void) | null = null;
+  // Notifies the reader of the list when the array is changed in place
+  #changes: Deps = new Map();
+
+  constructor(
+    source: EachSource<T>,
+    render: (item: T, index: ReadonlyRef<number>) => Template,
+    onDispose: () => void,
+  ) {
+    this.#source = source;
+    this.#render = render;
+    this.#onDispose = onDispose;
+  }
+
+  get templates() {
+    return this.#entries.map(entry => entry.template);
+  }
+
+  /**
+   * It is called in the reactive context of the reader, which is subscribed to the source of the list
+   * and to the changes made to the array in place, not to the items.
+   */
+  render(): ListPatch {
+    const source = this.#source;
+    const items = isArray(source) ? source : typeof source === 'function' ? source() : source.value;
+    track(this.#changes);
+    const rawItems = toRaw(items);
+    if (rawItems === this.#items && this.#splices) {
+      const splices = this.#splices;
+      this.#splices = [];
+      return { splices: splices.map(splice => this.#applySplice(splice)) };
+    }
+    this.#observe(rawItems, isReactive(items));
+    return { templates: this.#renderAll(items) };
+  }
+
+  dispose() {
+    this.#unobserve?.();
+    this.#unobserve = null;
+    this.#items = null;
+    this.#entries.forEach(entry => entry.scope.stop());
+    this.#entries = [];
+    this.#onDispose();
+  }
+
+  #observe(rawItems: unknown[], isObservable: boolean) {
+    if (rawItems === this.#items && this.#unobserve) {
+      this.#splices = [];
+      return;
+    }
+    this.#unobserve?.();
+    this.#items = rawItems;
+    this.#splices = isObservable ? [] : null;
+    this.#unobserve = isObservable
+      ? observeArray(rawItems, splice => {
+        splice ? this.#splices?.push(splice) : (this.#splices = null);
+        trigger(this.#changes);
+      })
+      : null;
+  }
+
+  #createEntry(item: T, i: number): ListEntry {
+    const index = ref(i);
+    // The items have their own lifecycle, they should not be stopped by the scope rendering the list
+    const scope = effectScope(true);
+    // Rendering an item must not subscribe the reader of the list to what the item reads
+    const template = scope.run(() => untrack(() => this.#render(item, readonly(index))))!;
+    return { key: toRaw(item), template, index, scope };
+  }
+
+  #renderAll(items: T[]) {
+    // The same item could appear more than once, e.g. a list of primitives, they are rendered separately
+    const previousEntries = new Map<unknown, ListEntry[]>();
+    this.#entries.forEach(entry => {
+      const list = previousEntries.get(entry.key);
+      list ? list.push(entry) : previousEntries.set(entry.key, [entry]);
+    });
+    // Reading the items must not subscribe the reader of the list to every index of it
+    this.#entries = untrack(() =>
+      items.map((item, i) => {
+        const entry = previousEntries.get(toRaw(item))?.shift();
+        if (!entry) {
+          return this.#createEntry(item, i);
+        }
+        entry.index.value = i;
+        return entry;
+      })
+    );
+    // The items no longer in the list, their templates are unmounted by the diff of the list
+    previousEntries.forEach(list => list.forEach(entry => entry.scope.stop()));
+    return this.templates;
+  }
+
+  #applySplice({ index, deleteCount, items }: ArraySplice): TemplateSplice {
+    const added = items.map((item, i) => this.#createEntry(toReactive(item) as T, index + i));
+    const removed = this.#entries.splice(index, deleteCount, ...added);
+    removed.forEach(entry => entry.scope.stop());
+    // Only the items after the splice move
+    if (deleteCount !== items.length) {
+      for (let i = index + added.length; i < this.#entries.length; i++) {
+        this.#entries[i].index.value = i;
+      }
+    }
+    return {
+      index,
+      removed: removed.map(entry => entry.template),
+      added: added.map(entry => entry.template),
+    };
+  }
+}
+
+// The factories of the renderers of the lists returned by each()
+const listRendererFactories = new WeakMap<CallableFunction, () => ListRenderer<unknown>>();
+
+export function isListGetter(value: unknown): value is () => Template[] {
+  return typeof value === 'function' && listRendererFactories.has(value);
+}
+
+export function createListRenderer(getter: () => Template[]) {
+  return listRendererFactories.get(getter)!();
+}
+
+/**
+ * @public
+ * Render a list, every item is rendered only once, its template is reused as long as the item stays in the list:
+ * ```ts
+ * html`<ul>${each(todos, todo => html`<li>${() => todo.text}</li>`)}</ul>`
+ * ```
+ * Mutating a reactive list in place, e.g. push(), splice() or setting an index, only renders the inserted items
+ * and removes the templates of the removed ones, the other templates stay as they are.
+ * Replacing, sorting or reversing the list renders it again as a whole, the templates of the items still in it
+ * are moved rather than rendered again.
+ * Editing an item only re-runs the getters of its own template.
+ * The items are identified by themselves (the raw objects for the reactive ones), replacing an item with
+ * an equal copy renders it again. The index of an item is a ref, it changes when the item moves.
+ * Every template mounting the list renders its own items, the scope of an item is stopped when the item is
+ * removed from the list, when the template is unmounted, or when the scope calling each() is stopped.
+ */
+export function each<T>(
+  source: EachSource<T>,
+  render: (item: T, index: ReadonlyRef<number>) => Template,
+): () => Template[] {
+  const renderers = new Set<ListRenderer<T>>();
+  const createRenderer = () => {
+    const renderer: ListRenderer<T> = new ListRenderer(source, render, () => renderers.delete(renderer));
+    renderers.add(renderer);
+    return renderer;
+  };
+
+  // Reading the list out of a template, e.g. in SSR, renders the items once for all the readers
+  let sharedRenderer: ListRenderer<T> | null = null;
+  getCurrentScope()?.addCleanup(() => {
+    [...renderers].forEach(renderer => renderer.dispose());
+    sharedRenderer = null;
+  });
+  const getter = () => {
+    sharedRenderer ||= createRenderer();
+    sharedRenderer.render();
+    return sharedRenderer.templates;
+  };
+  listRendererFactories.set(getter, createRenderer as () => ListRenderer<unknown>);
+  return getter;
+}
@@ -0,0 +1,89 @@
+import { expect } from '@esm-bundle/chai';
+import { fake } from 'sinon';
+
+import { effectScope, getCurrentScope, onScopeDispose } from './effectScope.js';
+import { computed, ref, watch, watchEffect } from './reactive.js';
+import { nextTick } from './scheduler.js';
+
+describe('Effect scope', () => {
+  it('collects the watchers and computeds created inside it', async () => {
+    const count = ref(0);
+    const watchCb = fake();
+    const effect = fake(() => count.value);
+    const getter = fake(() => count.value * 2);
+    const computedCb = fake();
+
+    const scope = effectScope();
+    const result = scope.run(() => {
+      watch(count, watchCb);
+      watchEffect(effect);
+      const double = computed(getter);
+      watch(double, computedCb);
+      return double;
+    });
+    expect(result!.value).to.equal(0);
+
+    count.value++;
+    await nextTick();
+    expect(watchCb.callCount).to.equal(1);
+    expect(effect.callCount).to.equal(2);
+    expect(computedCb.callCount).to.equal(1);
+
+    scope.stop();
+    expect(scope.isActive).to.equal(false);
+    // the stopped watchers and computeds have unsubscribed the ref
+    count.value++;
+    await nextTick();
+    expect(watchCb.callCount).to.equal(1);
+    expect(effect.callCount).to.equal(2);
+    expect(getter.callCount).to.equal(2);
+    expect(computedCb.callCount).to.equal(1);
+  });
+
+  it('nested scopes are stopped with their parent scope, unless they are detached', async () => {
+    const count = ref(0);
+    const nestedEffect = fake(() => count.value);
+    const detachedEffect = fake(() => count.value);
+
+    const scope = effectScope();
+    const detachedScope = effectScope(true);
+    scope.run(() => {
+      effectScope().run(() => watchEffect(nestedEffect));
+      detachedScope.run(() => watchEffect(detachedEffect));
+    });
+
+    scope.stop();
+    count.value++;
+    await nextTick();
+    expect(nestedEffect.callCount).to.equal(1);
+    expect(detachedEffect.callCount).to.equal(2);
+
+    detachedScope.stop();
+  });
+
+  it('getCurrentScope() and onScopeDispose()', () => {
+    const cleanup = fake();
+    const scope = effectScope();
+    expect(getCurrentScope()).to.equal(null);
+    scope.run(() => {
+      expect(getCurrentScope()).to.equal(scope);
+      onScopeDispose(cleanup);
+    });
+    expect(getCurrentScope()).to.equal(null);
+
+    expect(cleanup.callCount).to.equal(0);
+    scope.stop();
+    expect(cleanup.callCount).to.equal(1);
+    // Stopping a scope twice is a no-op
+    scope.stop();
+    expect(cleanup.callCount).to.equal(1);
+  });
+
+  it('a stopped scope cannot be run again', () => {
+    const scope = effectScope();
+    scope.stop();
+    const fn = fake();
+    expect(scope.run(fn)).to.equal(undefined);
+    expect(fn.callCount).to.equal(0);
+  });
+});
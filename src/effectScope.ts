@@ -0,0 +1,89 @@
+import { error } from './utils.js';
+
+let activeEffectScope: EffectScope | null = null;
+
+/**
+ * @public
+ * An effect scope collects the watchers and computeds created while it is active,
+ * so that they can be disposed all together.
+ */
+export class EffectScope {
+  #isActive = true;
+  get isActive() {
+    return this.#isActive;
+  }
+
+  #parent: EffectScope | null = null;
+  #children: Set<EffectScope> = new Set();
+  #cleanups: Set<CallableFunction> = new Set();
+
+  /**
+   * A detached scope is not collected by its parent scope, it has to be stopped on its own.
+   */
+  constructor(detached = false) {
+    if (!detached && activeEffectScope) {
+      this.#parent = activeEffectScope;
+      activeEffectScope.#children.add(this);
+    }
+  }
+
+  run<T>(fn: () => T): T | undefined {
+    if (!this.#isActive) {
+      __ENV__ === 'development' && error('Cannot run an effect scope that has already been stopped.');
+      return;
+    }
+    const previousScope = activeEffectScope;
+    activeEffectScope = this;
+    try {
+      return fn();
+    } finally {
+      activeEffectScope = previousScope;
+    }
+  }
+
+  addCleanup(cleanup: CallableFunction) {
+    this.#cleanups.add(cleanup);
+  }
+
+  stop() {
+    if (!this.#isActive) {
+      return;
+    }
+    this.#isActive = false;
+    this.#children.forEach(child => child.stop());
+    this.#cleanups.forEach(cleanup => cleanup());
+    this.#children.clear();
+    this.#cleanups.clear();
+    if (this.#parent) {
+      this.#parent.#children.delete(this);
+      this.#parent = null;
+    }
+  }
+}
+
+/**
+ * @public
+ */
+export function effectScope(detached = false) {
+  return new EffectScope(detached);
+}
+
+/**
+ * @public
+ */
+export function getCurrentScope() {
+  return activeEffectScope;
+}
+
+/**
+ * @public
+ * Register a callback to be called when the current effect scope is stopped.
+ */
+export function onScopeDispose(cb: CallableFunction) {
+  if (!activeEffectScope) {
+    __ENV__ === 'development' &&
+      error('onScopeDispose must be called inside an effect scope or the setup() function of your custom element');
+    return;
+  }
+  activeEffectScope.addCleanup(cb);
+}
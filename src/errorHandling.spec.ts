@@ -0,0 +1,169 @@
+import { expect } from '@esm-bundle/chai';
+import { fake, stub } from 'sinon';
+
+import { defineElement } from './defineElement.js';
+import { setErrorHandler } from './errorHandling.js';
+import { html } from './html.js';
+import { onConnected } from './lifecycle.js';
+import { computed, isTracking, ref, watch, watchEffect } from './reactive.js';
+import { nextTick, queueTask } from './scheduler.js';
+
+describe('Error handling', () => {
+  afterEach(() => {
+    setErrorHandler(null);
+    document.body.innerHTML = '';
+  });
+
+  it('the errors are logged by default', async () => {
+    const consoleError = stub(console, 'error');
+    const err = new Error('oops');
+    queueTask(() => {
+      throw err;
+    });
+    await nextTick();
+    consoleError.restore();
+    expect(consoleError.callCount).to.equal(1);
+    expect(consoleError.firstCall.args[1]).to.equal(err);
+  });
+
+  it('a throwing watcher does not corrupt the reactive context', async () => {
+    const handler = fake();
+    setErrorHandler(handler);
+    const count = ref(0);
+    const err = new Error('oops');
+    watch(() => {
+      if (count.value === 1) {
+        throw err;
+      }
+      return count.value;
+    }, () => {});
+    const cb = fake();
+    watchEffect(() => {
+      if (count.value === 1) {
+        throw err;
+      }
+    });
+    watch(count, cb);
+
+    count.value = 1;
+    await nextTick();
+    expect(handler.callCount).to.equal(2);
+    expect(handler.firstCall.args).to.eql([err, 'watcher']);
+    expect(handler.secondCall.args).to.eql([err, 'watchEffect']);
+    // the other tasks of the same flush still run
+    expect(cb.callCount).to.equal(1);
+
+    // reading a ref outside of any reactive context is not tracked
+    expect(isTracking()).to.equal(false);
+
+    count.value = 2;
+    await nextTick();
+    expect(handler.callCount).to.equal(2);
+    expect(cb.callCount).to.equal(2);
+  });
+
+  it('a throwing computed is evaluated again on the next read', () => {
+    const count = ref(0);
+    const getter = fake(() => {
+      if (count.value === 1) {
+        throw new Error('oops');
+      }
+      return count.value;
+    });
+    const value = computed(getter);
+    expect(value.value).to.equal(0);
+    count.value = 1;
+    expect(() => value.value).to.throw('oops');
+    expect(() => value.value).to.throw('oops');
+    count.value = 2;
+    expect(value.value).to.equal(2);
+    expect(getter.callCount).to.equal(4);
+  });
+
+  it('the watchers of a throwing computed are notified again when its sources change', async () => {
+    const handler = fake();
+    setErrorHandler(handler);
+    const count = ref(0);
+    const value = computed(() => {
+      if (count.value === 1) {
+        throw new Error('oops');
+      }
+      return count.value;
+    });
+    const cb = fake();
+    watch(value, cb);
+
+    count.value = 1;
+    await nextTick();
+    expect(handler.callCount).to.equal(1);
+    for (const n of [2, 3, 4]) {
+      count.value = n;
+      await nextTick();
+    }
+    expect(cb.args.map(args => args[0])).to.eql([2, 3, 4]);
+    expect(handler.callCount).to.equal(1);
+  });
+
+  it('a throwing computed neither throws into the ref writer nor prevents the other watchers to update', async () => {
+    const handler = fake();
+    setErrorHandler(handler);
+    const count = ref(0);
+    const failing = computed(() => {
+      if (count.value === 1) {
+        throw new Error('oops');
+      }
+      return count.value;
+    });
+    const shifted = computed(() => count.value + 100);
+    const cb = fake();
+    watch(failing, () => {});
+    watch(shifted, cb);
+
+    expect(() => count.value = 1).not.to.throw();
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(101);
+    expect(handler.callCount).to.equal(1);
+    expect(handler.firstCall.args[1]).to.equal('computed');
+  });
+
+  it('a throwing template getter restores the reactive context', () => {
+    const count = ref(0);
+    const template = html`<p>${() => {
+      count.value;
+      throw new Error('oops');
+    }}</p>`;
+    expect(() => template.mountTo(document.createElement('div'))).to.throw('oops');
+    expect(isTracking()).to.equal(false);
+  });
+
+  it('a throwing setup() does not leak the current instance', () => {
+    const handler = fake();
+    setErrorHandler(handler);
+    const connected = fake();
+    const BrokenElement = defineElement({
+      name: 'broken-element',
+      setup() {
+        throw new Error('oops');
+      },
+    });
+    const WorkingElement = defineElement({
+      name: 'working-element',
+      setup() {
+        onConnected(connected);
+        return {
+          template: html`<p>working</p>`,
+        };
+      },
+    });
+
+    document.body.appendChild(new BrokenElement());
+    expect(handler.callCount).to.equal(1);
+    expect(handler.firstCall.args[1]).to.equal('setup()');
+
+    const el = new WorkingElement();
+    document.body.appendChild(el);
+    expect(connected.callCount).to.equal(1);
+    expect(el.shadowRoot!.querySelector('p')!.textContent).to.equal('working');
+  });
+});
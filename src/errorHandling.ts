@@ -0,0 +1,37 @@
+import { error } from './utils.js';
+
+/**
+ * @public
+ * The source describes where the error is thrown, e.g. 'watcher', 'setup()'.
+ */
+export type ErrorHandler = (err: unknown, source: string) => void;
+
+let errorHandler: ErrorHandler | null = null;
+
+/**
+ * @public
+ * Route the errors thrown by the watchers, the queued tasks and the setup() functions to the given handler,
+ * they are logged to the console by default. Passing null restores the default behavior.
+ */
+export function setErrorHandler(handler: ErrorHandler | null) {
+  errorHandler = handler;
+}
+
+export function handleError(err: unknown, source: string) {
+  if (errorHandler) {
+    errorHandler(err, source);
+    return;
+  }
+  error(`Unhandled error in ${source}:`, err);
+}
+
+/**
+ * Call the function, the error it throws is handled rather than propagated to the caller.
+ */
+export function callWithErrorHandling<T>(fn: () => T, source: string): T | undefined {
+  try {
+    return fn();
+  } catch (err) {
+    handleError(err, source);
+  }
+}
@@ -1,6 +1,19 @@
 import { DomRef, isDomRef } from './domRef.js';
-import { popReactiveContextStack, pushReactiveContextStack } from './reactive.js';
-import { queueTask } from './scheduler.js';
+import { ListRenderer, TemplateSplice, createListRenderer, isListGetter } from './each.js';
+import {
+  ComputedRef,
+  DebuggerOptions,
+  Dependency,
+  ReadonlyRef,
+  Ref,
+  cleanupTarget,
+  getDependencies,
+  isComputed,
+  runInReactiveContext,
+  setDebuggerOptions,
+} from './reactive.js';
+import { isReactive } from './reactiveProxy.js';
+import { queueTask, setTaskLabel } from './scheduler.js';
 import { createSSRTemplateFunction, isSSRTemplate } from './ssr/htmlSSR.js';
 import { trustedTypePolicy } from './trustedType.js';
 import {
@@ -53,10 +66,16 @@ interface ChildrenFixerParams {
  * @public
  */
 export type FunctionInterpolator = (...args: any[]) => unknown;
+/**
+ * @public
+ * A ref or a computed interpolated as is, it is read like `() => ref.value` for the children,
+ * the attributes and the property bindings.
+ */
+export type RefInterpolator = Ref<any> | ComputedRef<any> | ReadonlyRef<any>;
 /**
  * @public
  */
-export type DynamicInterpolators = FunctionInterpolator | Template | DomRef;
+export type DynamicInterpolators = FunctionInterpolator | RefInterpolator | Template | DomRef;
 
 type Fixer = (...args: any[]) => void;
 
@@ -66,13 +85,32 @@ type Fixer = (...args: any[]) => void;
 type TemplateKey = string | number;
 
 export function isDynamicInterpolator(value: unknown): value is DynamicInterpolators {
-  return isFuncInterpolator(value) || isTemplate(value) || isDomRef(value) || (__SSR__ && isSSRTemplate(value));
+  return isFuncInterpolator(value) || isRefInterpolator(value) || isTemplate(value) || isDomRef(value) ||
+    (__SSR__ && isSSRTemplate(value));
 }
 
 export function isFuncInterpolator(value: unknown): value is FunctionInterpolator {
   return typeof value === 'function';
 }
 
+export function isRefInterpolator(value: unknown): value is RefInterpolator {
+  return value instanceof Ref || isComputed(value);
+}
+
+/**
+ * The interpolators producing a value, i.e. the getters and the refs.
+ */
+export function isValueInterpolator(value: unknown): value is FunctionInterpolator | RefInterpolator {
+  return isFuncInterpolator(value) || isRefInterpolator(value);
+}
+
+/**
+ * Read the value of a getter or a ref, it is called inside a reactive context so that the refs are subscribed.
+ */
+export function readValueInterpolator(interpolator: FunctionInterpolator | RefInterpolator) {
+  return isFuncInterpolator(interpolator) ? interpolator() : interpolator.value;
+}
+
 export function isTemplate(value: unknown): value is Template {
   return value instanceof Template;
 }
@@ -155,6 +193,28 @@ export class Template {
 
   #isHydrating = false;
 
+  #debuggerOptions: DebuggerOptions | null = null;
+  /**
+   * @public
+   * Dev only, the hooks are called when the getters of the template subscribe a ref or are triggered by one,
+   * the children templates mounted to this template inherit them.
+   */
+  setDebuggerOptions(options: DebuggerOptions) {
+    if (__ENV__ === 'development') {
+      this.#debuggerOptions = options;
+      setDebuggerOptions(this, options);
+    }
+  }
+
+  /**
+   * @public
+   * The refs, computeds and reactive object keys the getters of the template currently depend on,
+   * the sources are only known in dev builds.
+   */
+  getDependencies(): Dependency[] {
+    return getDependencies(this);
+  }
+
   constructor(originalDoc: DocumentFragment, dynamicPartToGetterMap: Map<string, DynamicInterpolators>) {
     this.#originalDoc = originalDoc;
     this.#dynamicPartToGetterMap = dynamicPartToGetterMap;
@@ -213,6 +273,9 @@ export class Template {
       this.#parent = null;
     }
     this.#dpToUnmountingFixerMap.forEach(fixer => fixer());
+    // Stop being notified by the refs, so that the template is not kept alive by them,
+    // mounting the template again runs all its getters and subscribes the refs again
+    cleanupTarget(this);
   }
 
   /**
@@ -223,6 +286,9 @@ export class Template {
   mountTo(parentTemplate: Template, anchorNode: Node | null): void;
   mountTo(parent: Node): void;
   mountTo(parent: Node | Template, anchorNode: Node | null = null) {
+    if (__ENV__ === 'development' && parent instanceof Template && parent.#debuggerOptions && !this.#debuggerOptions) {
+      this.setDebuggerOptions(parent.#debuggerOptions);
+    }
     // The template is lazy initialized, and will only be initialized once when it is mounted.
     this.#init();
     this.#dpToMountingFixerMap.forEach(fixer => fixer());
@@ -270,10 +336,23 @@ export class Template {
   update(dynamicPartSpecifier: string = '') {
     if (dynamicPartSpecifier) {
       const fixer = this.#dpToUpdatingFixerMap.get(dynamicPartSpecifier);
-      fixer && queueTask(fixer);
+      fixer && this.#queueFixer(fixer, dynamicPartSpecifier);
       return;
     }
-    this.#dpToUpdatingFixerMap.forEach(fixer => queueTask(fixer));
+    this.#dpToUpdatingFixerMap.forEach((fixer, specifier) => this.#queueFixer(fixer, specifier));
+  }
+
+  // The queued fixers are skipped if the template is unmounted before they run,
+  // or they would subscribe the refs again on behalf of an unmounted template
+  #guardedFixers: Map<Fixer, Fixer> = new Map();
+  #queueFixer(fixer: Fixer, dynamicPartSpecifier: string) {
+    let guardedFixer = this.#guardedFixers.get(fixer);
+    if (!guardedFixer) {
+      guardedFixer = () => this.isInUse && fixer();
+      this.#guardedFixers.set(fixer, guardedFixer);
+      __ENV__ === 'development' && setTaskLabel(guardedFixer, dynamicPartSpecifier);
+    }
+    queueTask(guardedFixer);
   }
 
   hydrate(childNodes: ChildNode[]) {
@@ -525,7 +604,7 @@ export class Template {
   }
 
   strictSameAs(other: Template) {
-    return this.sameAs(other) && this.#key && other.#key && this.#key === other.#key;
+    return this === other || (this.sameAs(other) && this.#key && other.#key && this.#key === other.#key);
   }
 
   // This is useful in DOM updates during re-rendering.
@@ -653,9 +732,9 @@ export class Template {
     let newAttrValue = pattern;
     dynamicParts.forEach((dynamicPartObj) => {
       const getter = this.#dynamicPartToGetterMap.get(dynamicPartObj.dynamicPartSpecifier);
-      if (!isFuncInterpolator(getter)) {
+      if (!isValueInterpolator(getter)) {
         if (__ENV__ === 'development') {
-          error(`You must provide a function as the attribute value interpolator, but you provided:`, getter);
+          error(`You must provide a function or a ref as the attribute value interpolator, but you provided:`, getter);
         }
         return;
       }
@@ -715,9 +794,9 @@ export class Template {
     propName: string,
   ) => {
     const getter = this.#dynamicPartToGetterMap.get(dynamicPartSpecifier);
-    if (!isFuncInterpolator(getter)) {
+    if (!isValueInterpolator(getter)) {
       if (__ENV__ === 'development') {
-        error(`You must provide a function as the property value interpolator, but you provided:`, getter);
+        error(`You must provide a function or a ref as the property value interpolator, but you provided:`, getter);
       }
       return;
     }
@@ -892,16 +971,34 @@ export class Template {
     // Reset oldValue when unmounting
     this.#dpToUnmountingFixerMap.set(fixerArgs.dynamicPartSpecifier, () => {
       fixerArgs.oldValue = null;
+      // The items of a list are unmounted with the template, they are rendered again when it is mounted again
+      const list = this.#listRenderers.get(fixerArgs.dynamicPartSpecifier);
+      if (list) {
+        list.renderer.dispose();
+        this.#listRenderers.delete(fixerArgs.dynamicPartSpecifier);
+        fixerArgs.dynamicNode = [];
+      }
     });
   };
 
   #childrenFixer = (fixerArgs: ChildrenFixerParams) => {
     const dynamicInterpolator = this.#dynamicPartToGetterMap.get(fixerArgs.dynamicPartSpecifier)!;
-    const value = isFuncInterpolator(dynamicInterpolator)
-      ? this.#runGetter(dynamicInterpolator, fixerArgs.dynamicPartSpecifier)
-      : dynamicInterpolator;
+    let value: unknown;
+    if (isListGetter(dynamicInterpolator)) {
+      const { templates, splices } = this.#renderList(dynamicInterpolator, fixerArgs.dynamicPartSpecifier);
+      if (splices) {
+        this.#spliceList(fixerArgs, splices);
+        return;
+      }
+      value = templates;
+    } else {
+      value = isValueInterpolator(dynamicInterpolator)
+        ? this.#runGetter(dynamicInterpolator, fixerArgs.dynamicPartSpecifier)
+        : dynamicInterpolator;
+    }
 
-    if (fixerArgs.oldValue === value) {
+    // An array could be mutated in place (e.g. a reactive array), so it is always diffed
+    if (fixerArgs.oldValue === value && !isArray(value)) {
       // No need to update
       return;
     }
@@ -956,7 +1053,8 @@ export class Template {
           tpl.mountTo(this, fixerArgs.anchorNode);
         }
       });
-      fixerArgs.dynamicNode = current;
+      // Keep a copy of the list, the diff algorithm mutates the old list and the given list may be mutated by users
+      fixerArgs.dynamicNode = [...current];
     } else if (!isArray(previous) && !isArray(current)) {
       // Unmount the old dynamic node
       if (isTemplate(previous)) {
@@ -1008,34 +1106,30 @@ export class Template {
         } else if (!oldEndTpl) {
           oldEndTpl = oldList[--oldEndIdx];
         } else if (oldStartTpl.strictSameAs(newStartTpl)) {
-          oldStartTpl.adoptGettersFrom(newStartTpl);
-          oldStartTpl.update();
+          this.#patchTemplate(oldStartTpl, newStartTpl);
           oldStartTpl = oldList[++oldStartIdx];
           newStartTpl = newList[++newStartIdx];
         } else if (oldEndTpl.strictSameAs(newEndTpl)) {
-          oldEndTpl.adoptGettersFrom(newEndTpl);
-          oldEndTpl.update();
+          this.#patchTemplate(oldEndTpl, newEndTpl);
           oldEndTpl = oldList[--oldEndIdx];
           newEndTpl = newList[--newEndIdx];
         } else if (oldStartTpl.strictSameAs(newEndTpl)) {
           oldStartTpl.moveToAfter(oldEndTpl);
-          oldStartTpl.adoptGettersFrom(newEndTpl);
-          oldStartTpl.update();
+          this.#patchTemplate(oldStartTpl, newEndTpl);
           oldStartTpl = oldList[++oldStartIdx];
           newEndTpl = newList[--newEndIdx];
         } else if (oldEndTpl.strictSameAs(newStartTpl)) {
           oldEndTpl.moveToBefore(oldStartTpl);
-          oldEndTpl.adoptGettersFrom(newStartTpl);
-          oldEndTpl.update();
+          this.#patchTemplate(oldEndTpl, newStartTpl);
           oldEndTpl = oldList[--oldEndIdx];
           newStartTpl = newList[++newStartIdx];
         } else {
-          const idxInOld = oldList.findIndex(tpl => tpl.strictSameAs(newStartTpl));
+          // The matched templates are removed from the old list, they leave holes behind
+          const idxInOld = oldList.findIndex(tpl => tpl && tpl.strictSameAs(newStartTpl));
           if (idxInOld > 0) {
             const tplToBeMoved = oldList[idxInOld];
             tplToBeMoved.moveToBefore(oldStartTpl);
-            tplToBeMoved.adoptGettersFrom(newStartTpl);
-            tplToBeMoved.update();
+            this.#patchTemplate(tplToBeMoved, newStartTpl);
             oldList[idxInOld] = undefined as any;
             newStartTpl = newList[++newStartIdx];
           } else {
@@ -1053,22 +1147,57 @@ export class Template {
         }
       } else if (newEndIdx < newStartIdx && oldEndIdx >= oldStartIdx) {
         for (let i = oldStartIdx; i <= oldEndIdx; i++) {
-          oldList[i].unmount();
+          oldList[i]?.unmount();
         }
       }
 
-      fixerArgs.dynamicNode = newList;
+      fixerArgs.dynamicNode = [...newList];
     }
   };
 
-  #runGetter(getter: FunctionInterpolator, dynamicPartSpecifier: string) {
-    pushReactiveContextStack({
-      target: this,
-      specifier: dynamicPartSpecifier,
+  // The clones of a template share the list getters, but every mounted one renders its own items
+  #listRenderers: Map<string, { getter: () => Template[], renderer: ListRenderer<unknown> }> = new Map();
+  #renderList(getter: () => Template[], dynamicPartSpecifier: string) {
+    let list = this.#listRenderers.get(dynamicPartSpecifier);
+    // The getters could have been adopted from another template
+    if (!list || list.getter !== getter) {
+      list?.renderer.dispose();
+      list = { getter, renderer: createListRenderer(getter) };
+      this.#listRenderers.set(dynamicPartSpecifier, list);
+    }
+    const { renderer } = list;
+    return runInReactiveContext(this, dynamicPartSpecifier, () => renderer.render());
+  }
+
+  // A list changed in place, only the inserted and removed templates are mounted and unmounted
+  #spliceList(fixerArgs: ChildrenFixerParams, splices: TemplateSplice[]) {
+    const list = fixerArgs.dynamicNode as Template[];
+    splices.forEach(({ index, removed, added }) => {
+      removed.forEach(tpl => tpl.unmount());
+      const next = list[index + removed.length];
+      added.forEach(tpl => tpl.mountTo(this, next ? next.#selfStartAnchor : fixerArgs.anchorNode));
+      list.splice(index, removed.length, ...added);
+    });
+  }
+
+  // A template reused as is, e.g. by each(), is kept up to date by the refs its own getters read
+  #patchTemplate(oldTpl: Template, newTpl: Template) {
+    if (oldTpl === newTpl) {
+      return;
+    }
+    oldTpl.adoptGettersFrom(newTpl);
+    oldTpl.update();
+  }
+
+  #runGetter(getter: FunctionInterpolator | RefInterpolator, dynamicPartSpecifier: string) {
+    return runInReactiveContext(this, dynamicPartSpecifier, () => {
+      const value = readValueInterpolator(getter);
+      // Subscribe every item of a reactive list as well, so that mutating the list in place re-renders it
+      if (isArray(value) && isReactive(value)) {
+        value.forEach(() => {});
+      }
+      return value;
     });
-    const value = getter();
-    popReactiveContextStack();
-    return value;
   }
 }
 
@@ -1,3 +1,13 @@
+export {
+  RefHistory,
+  RefHistoryOptions,
+  SharedRefChannel,
+  Subscribable,
+  fromEvent,
+  fromObservable,
+  refHistory,
+  sharedRef,
+} from './composables.js';
 export { css } from './css.js';
 export {
   AttrDefinition,
@@ -25,10 +35,67 @@ export {
   defineProperty,
 } from './defineProperty.js';
 export { domRef } from './domRef.js';
-export { DynamicInterpolators, Template, html, unsafeHtml } from './html.js';
+export { EachSource, each } from './each.js';
+export { EffectScope, effectScope, getCurrentScope, onScopeDispose } from './effectScope.js';
+export { ErrorHandler, setErrorHandler } from './errorHandling.js';
+export { DynamicInterpolators, RefInterpolator, Template, html, unsafeHtml } from './html.js';
 export { onConnected, onDisconnected } from './lifecycle.js';
-export { ComputedRef, OnInvalidateFn, Ref, UnwatchFn, WatchCallback, computed, ref, watch } from './reactive.js';
+export {
+  ComputedOptions,
+  ComputedRef,
+  CustomRefFactory,
+  DebuggerEvent,
+  DebuggerOptions,
+  DeepReadonly,
+  Dependency,
+  EqualityFn,
+  Observer,
+  OnInvalidateFn,
+  ReadonlyRef,
+  Ref,
+  RefOptions,
+  Snapshot,
+  Subscription,
+  UnwatchFn,
+  WatchCallback,
+  WatchEffect,
+  WatchEffectOptions,
+  WatchOptions,
+  WatchSource,
+  WatchSourceValue,
+  WatchSourcesValues,
+  WritableComputedOptions,
+  WritableComputedRef,
+  batch,
+  computed,
+  customRef,
+  isReadonly,
+  readonly,
+  ref,
+  shallowRef,
+  snapshot,
+  triggerRef,
+  untrack,
+  watch,
+  watchEffect,
+} from './reactive.js';
+export { isReactive, reactive, toRaw } from './reactiveProxy.js';
+export { Resource, ResourceFetcher, ResourceFetcherInfo, resource } from './resource.js';
 export { Priority, nextTick, queueTask } from './scheduler.js';
+export {
+  Store,
+  StoreActionContext,
+  StoreContainer,
+  StoreGetter,
+  StoreGetterKeys,
+  StoreMethods,
+  StoreMutation,
+  StoreState,
+  UnwrapStoreSetup,
+  createStoreContainer,
+  defineStore,
+} from './store.js';
+export { StandardSignal, toSignal } from './signals.js';
 export { HyphenToCamelCase } from './utils.js';
 
 export { SRayHTMLElement } from './ssr/HTMLElement.js';
@@ -1,8 +1,28 @@
 import { expect } from '@esm-bundle/chai';
-import { fake, useFakeTimers } from 'sinon';
+import { fake, stub, useFakeTimers } from 'sinon';
 
-import { computed, ref, watch } from './reactive.js';
-import { Priority, nextTick } from './scheduler.js';
+import { effectScope } from './effectScope.js';
+import { html } from './html.js';
+import {
+  ComputedRef,
+  batch,
+  computed,
+  customRef,
+  isReadonly,
+  observableSymbol,
+  popReactiveContextStack,
+  pushReactiveContextStack,
+  readonly,
+  ref,
+  shallowRef,
+  snapshot,
+  triggerRef,
+  untrack,
+  watch,
+  watchEffect,
+} from './reactive.js';
+import { isReactive, reactive, toRaw } from './reactiveProxy.js';
+import { Priority, nextTick, queueTask } from './scheduler.js';
 
 describe('Reactive', () => {
   it('watch a ref and a getter', async () => {
@@ -126,6 +146,95 @@ describe('Reactive', () => {
     expect(callOrder).to.eql(['cb4', 'cb4', 'cb2', 'cb3', 'cb1']);
   });
 
+  it('watch with options - immediate', async () => {
+    const count = ref(0);
+    const cb = fake();
+    watch(count, cb, { immediate: true });
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(0);
+    expect(cb.firstCall.args[1]).to.equal(null);
+
+    count.value = 1;
+    // the priority is still respected
+    expect(cb.callCount).to.equal(1);
+    await nextTick();
+    expect(cb.callCount).to.equal(2);
+    expect(cb.secondCall.args.slice(0, 2)).to.eql([1, 0]);
+  });
+
+  it('watch with options - once', async () => {
+    const count = ref(0);
+    const cb = fake();
+    watch(count, cb, { once: true });
+    count.value = 1;
+    await nextTick();
+    count.value = 2;
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(1);
+
+    const immediateCb = fake();
+    watch(count, immediateCb, { once: true, immediate: true });
+    count.value = 3;
+    await nextTick();
+    expect(immediateCb.callCount).to.equal(1);
+    expect(immediateCb.firstCall.args[0]).to.equal(2);
+  });
+
+  it('watch with options - deep', async () => {
+    const state = ref({ user: { tags: ['a'] }, map: new Map([['k', { count: 0 }]]) });
+    const cb = fake();
+    const deepCb = fake();
+    watch(state, cb);
+    watch(state, deepCb, { deep: true });
+
+    state.value.user.tags.push('b');
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+    expect(deepCb.callCount).to.equal(1);
+
+    state.value.map.get('k')!.count++;
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+    expect(deepCb.callCount).to.equal(2);
+  });
+
+  it('watch with options - flush', async () => {
+    const count = ref(0);
+    const callOrder: string[] = [];
+    const fixer = () => callOrder.push('fixer');
+    watch(count, () => {
+      callOrder.push('post');
+    }, { flush: 'post' });
+    watch(count, () => {
+      callOrder.push('low');
+      // a task queued by another task is still flushed before the post watchers
+      queueTask(fixer);
+    }, { priority: Priority.Low });
+    watch(count, () => {
+      callOrder.push('pre');
+    }, { flush: 'pre', priority: Priority.Low });
+
+    count.value = 1;
+    await nextTick();
+    expect(callOrder).to.eql(['pre', 'low', 'fixer', 'post']);
+  });
+
+  it('watch multiple sources', async () => {
+    const a = ref(1);
+    const b = ref('x');
+    const double = computed(() => a.value * 2);
+    const cb = fake();
+    watch([a, double, () => b.value.toUpperCase()], cb);
+
+    a.value = 2;
+    b.value = 'y';
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.eql([2, 4, 'Y']);
+    expect(cb.firstCall.args[1]).to.eql([1, 2, 'X']);
+  });
+
   it('computed should cache the value', async () => {
     const counter = ref(0);
     const getter = fake(() => counter.value * 2);
@@ -214,4 +323,711 @@ describe('Reactive', () => {
     expect(cb.secondCall.args[0]).to.equal(4);
     expect(cb.secondCall.args[1]).to.equal(2);
   });
+
+  it('assigning an equal value does not notify the dependents', async () => {
+    const count = ref(0);
+    const cb = fake();
+    watch(count, cb, { priority: Priority.Immediate });
+    cb.resetHistory();
+    count.value = 0;
+    expect(cb.callCount).to.equal(0);
+
+    const state = reactive({ a: 1 });
+    const stateRef = ref(state);
+    const stateCb = fake();
+    watch(stateRef, stateCb, { priority: Priority.Immediate });
+    stateCb.resetHistory();
+    // the raw object and its reactive proxy are the same value
+    stateRef.value = toRaw(state);
+    expect(stateCb.callCount).to.equal(0);
+  });
+
+  it('ref with a custom equality', async () => {
+    const point = ref({ x: 0, y: 0 }, { equals: (a, b) => a.x === b.x && a.y === b.y });
+    const cb = fake();
+    watch(point, cb, { priority: Priority.Immediate });
+    cb.resetHistory();
+    point.value = { x: 0, y: 0 };
+    expect(cb.callCount).to.equal(0);
+    point.value = { x: 1, y: 0 };
+    expect(cb.callCount).to.equal(1);
+  });
+
+  it('computed stops the propagation when its value is unchanged', async () => {
+    const count = ref(1);
+    const isPositive = computed(() => count.value > 0);
+    const cb = fake();
+    watch(isPositive, cb, { priority: Priority.Immediate });
+    cb.resetHistory();
+    count.value = 2;
+    expect(cb.callCount).to.equal(0);
+    count.value = -1;
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(false);
+
+    const list = ref([1, 2]);
+    const getter = fake(() => list.value.filter(item => item > 1));
+    const filtered = computed(getter, { equals: (a, b) => a.join() === b.join() });
+    const listCb = fake();
+    watch(filtered, listCb, { priority: Priority.Immediate });
+    listCb.resetHistory();
+    list.value = [0, 1, 2];
+    expect(getter.callCount).to.equal(2);
+    expect(listCb.callCount).to.equal(0);
+  });
+
+  it('computed diamond - every computed is evaluated once and the watcher notified once', async () => {
+    const a = ref(1);
+    const bGetter = fake(() => a.value + 1);
+    const cGetter = fake(() => a.value * 2);
+    const b = computed(bGetter);
+    const c = computed(cGetter);
+    const dGetter = fake(() => `${b.value}-${c.value}`);
+    const d = computed(dGetter);
+    const cb = fake();
+    const immediateCb = fake();
+    watch(d, cb);
+    watch(d, immediateCb, { priority: Priority.Immediate });
+    immediateCb.resetHistory();
+
+    a.value = 2;
+    expect(immediateCb.callCount).to.equal(1);
+    expect(immediateCb.firstCall.args[0]).to.equal('3-4');
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args.slice(0, 2)).to.eql(['3-4', '2-2']);
+    expect(bGetter.callCount).to.equal(2);
+    expect(cGetter.callCount).to.equal(2);
+    expect(dGetter.callCount).to.equal(2);
+  });
+
+  it('computed chain - the propagation stops at an unchanged computed', async () => {
+    const a = ref(1);
+    const parity = computed(() => a.value % 2);
+    const labelGetter = fake(() => (parity.value ? 'odd' : 'even'));
+    const label = computed(labelGetter);
+    const cb = fake();
+    watch(label, cb, { priority: Priority.Immediate });
+    cb.resetHistory();
+
+    a.value = 3;
+    expect(labelGetter.callCount).to.equal(1);
+    expect(cb.callCount).to.equal(0);
+    a.value = 4;
+    expect(labelGetter.callCount).to.equal(2);
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal('even');
+  });
+
+  it('computed read by a template or a watcher is evaluated once for all the writes of a tick', async () => {
+    const count = ref(0);
+    const getter = fake(() => count.value * 2);
+    const double = computed(getter);
+    const cb = fake();
+    watch(double, cb);
+    const container = document.createElement('div');
+    html`<p>${double}</p>`.mountTo(container);
+
+    count.value = 1;
+    count.value = 2;
+    count.value = 3;
+    expect(getter.callCount).to.equal(1);
+    await nextTick();
+    expect(getter.callCount).to.equal(2);
+    expect(container.textContent).to.equal('6');
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(6);
+
+    // A write settling back to the previous value notifies nobody
+    count.value = 4;
+    count.value = 3;
+    await nextTick();
+    expect(getter.callCount).to.equal(3);
+    expect(cb.callCount).to.equal(1);
+  });
+
+  it('computed is not re-evaluated until it is read', () => {
+    const a = ref(1);
+    const getter = fake(() => a.value * 2);
+    const double = computed(getter);
+    a.value = 2;
+    a.value = 3;
+    expect(getter.callCount).to.equal(0);
+    expect(double.value).to.equal(6);
+    expect(getter.callCount).to.equal(1);
+  });
+
+  it('computed releases its sources when nothing reads it anymore', async () => {
+    const a = ref(1);
+    const getter = fake(() => a.value * 2);
+    const onTrigger = fake();
+    const double = computed(getter, { onTrigger });
+    const quadruple = computed(() => double.value * 2);
+    const unwatch = watch(quadruple, () => {});
+    a.value = 2;
+    expect(onTrigger.callCount).to.equal(1);
+    await nextTick();
+
+    unwatch();
+    a.value = 1;
+    expect(onTrigger.callCount).to.equal(1);
+
+    // subscribe the sources again on the next access
+    expect(quadruple.value).to.equal(4);
+    expect(getter.callCount).to.equal(3);
+    const cb = fake();
+    watch(quadruple, cb);
+    a.value = 2;
+    expect(onTrigger.callCount).to.equal(2);
+    await nextTick();
+    expect(cb.firstCall.args[0]).to.equal(8);
+  });
+
+  it('computed read outside of any reactive context does not stay subscribed to its sources', async () => {
+    const a = ref(1);
+    const getter = fake(() => a.value * 2);
+    const onTrigger = fake();
+    const double = computed(getter, { onTrigger });
+    const quadruple = computed(() => double.value * 2);
+    expect(quadruple.value).to.equal(4);
+
+    // the value is kept as long as the refs it depends on are unchanged
+    const other = ref(0);
+    other.value = 1;
+    expect(quadruple.value).to.equal(4);
+    expect(getter.callCount).to.equal(1);
+    a.value = 2;
+    expect(quadruple.value).to.equal(8);
+    expect(getter.callCount).to.equal(2);
+    expect(onTrigger.callCount).to.equal(0);
+
+    const cb = fake();
+    watch(quadruple, cb);
+    a.value = 3;
+    await nextTick();
+    expect(cb.firstCall.args[0]).to.equal(12);
+  });
+
+  it('computed only subscribes the sources read by its last evaluation', async () => {
+    const useA = ref(true);
+    const a = ref('a');
+    const b = ref('b');
+    const getter = fake(() => (useA.value ? a.value : b.value));
+    const onTrigger = fake();
+    const result = computed(getter, { onTrigger });
+    watch(result, () => {});
+    b.value = 'B';
+    expect(onTrigger.callCount).to.equal(0);
+
+    useA.value = false;
+    await nextTick();
+    expect(onTrigger.callCount).to.equal(1);
+    a.value = 'A';
+    expect(onTrigger.callCount).to.equal(1);
+    expect(result.value).to.equal('B');
+    expect(getter.callCount).to.equal(2);
+    b.value = 'b';
+    expect(onTrigger.callCount).to.equal(2);
+  });
+
+  it('reports the targets that are still subscribed after they are disposed', () => {
+    const consoleError = stub(console, 'error');
+    const count = ref(0);
+    const target = { update: fake(), isInUse: true };
+    pushReactiveContextStack({ target, specifier: 'leaking' });
+    count.value;
+    popReactiveContextStack();
+
+    // the target is disposed without unsubscribing itself
+    target.isInUse = false;
+    count.value = 1;
+    expect(consoleError.callCount).to.equal(1);
+    expect(consoleError.firstCall.args[0]).to.contain('still subscribed after it was disposed');
+    expect(target.update.callCount).to.equal(0);
+    // the target has been pruned, it is reported only once
+    count.value = 2;
+    expect(consoleError.callCount).to.equal(1);
+    consoleError.restore();
+  });
+
+  it('a computed read after its scope is stopped is not subscribed again', () => {
+    const consoleError = stub(console, 'error');
+    const count = ref(0);
+    const scope = effectScope();
+    const double = scope.run(() => computed(() => count.value * 2))!;
+    scope.stop();
+
+    const cb = fake();
+    watch(() => double.value, cb, { immediate: true, priority: Priority.Immediate });
+    expect(cb.firstCall.args[0]).to.equal(0);
+    count.value = 1;
+    expect(cb.callCount).to.equal(1);
+    expect(double.value).to.equal(2);
+    consoleError.restore();
+    expect(consoleError.callCount).to.equal(0);
+  });
+
+  it('a computed reading itself is reported instead of recursing forever', () => {
+    const consoleError = stub(console, 'error');
+    const count = ref(1);
+    const a: ComputedRef<number> = computed(() => count.value + (b.value || 0));
+    const b: ComputedRef<number> = computed(() => a.value);
+    expect(b.value).to.equal(1);
+    consoleError.restore();
+    expect(consoleError.callCount).to.equal(1);
+    expect(consoleError.firstCall.args[0]).to.match(/Cycle detected.*_computed_\d+_ -> _computed_\d+_ -> _computed_\d+_/);
+  });
+
+  it('a watcher writing the ref it reads is stopped and reported with its specifier and the ref', async () => {
+    const consoleError = stub(console, 'error');
+    const count = ref(0);
+    watchEffect(() => {
+      count.value = count.value + 1;
+    });
+    await nextTick();
+    expect(count.value).to.equal(101);
+    expect(consoleError.firstCall.args[0]).to.match(
+      /Maximum updates exceeded.*_watch_effect_\d+_ \(queued by a write of a ref\)/,
+    );
+    expect(consoleError.firstCall.args[2][0]).to.equal(count);
+
+    const state = reactive({ total: 0 });
+    watch(() => state.total, () => state.total++);
+    state.total++;
+    await nextTick();
+    consoleError.restore();
+    expect(consoleError.secondCall.args[0]).to.contain('(queued by a write of the key "total" of a reactive object)');
+    expect(consoleError.secondCall.args[2][0]).to.equal(toRaw(state));
+  });
+
+  it('onTrack and onTrigger report the dependencies of watchers and computeds', async () => {
+    const count = ref(0);
+    const state = reactive({ name: 'foo' });
+    const onTrack = fake();
+    const onTrigger = fake();
+    watch(() => `${count.value}-${count.value}-${state.name}`, () => {}, { onTrack, onTrigger });
+    // a dependency is reported once per run
+    expect(onTrack.callCount).to.equal(2);
+    expect(onTrack.firstCall.args[0]).to.include({ type: 'track', source: count });
+    expect(onTrack.secondCall.args[0]).to.include({ type: 'track', source: toRaw(state), key: 'name' });
+    expect(onTrack.firstCall.args[0].specifier).to.match(/^_watcher_\d+_$/);
+
+    state.name = 'bar';
+    expect(onTrigger.callCount).to.equal(1);
+    expect(onTrigger.firstCall.args[0]).to.include({ type: 'trigger', source: toRaw(state), key: 'name' });
+
+    const computedOnTrigger = fake();
+    const double = computed(() => count.value * 2, { onTrigger: computedOnTrigger });
+    const watcherOnTrigger = fake();
+    watch(double, () => {}, { onTrigger: watcherOnTrigger });
+    count.value = 1;
+    expect(computedOnTrigger.firstCall.args[0]).to.include({ source: count });
+    // The watcher is triggered once the computed has been re-validated, before the next task
+    await nextTick();
+    expect(watcherOnTrigger.firstCall.args[0]).to.include({ source: double });
+  });
+
+  it('shallowRef only tracks the reassignment of .value', async () => {
+    const list = shallowRef([1, 2, 3]);
+    expect(isReactive(list.value)).to.equal(false);
+    expect(isReactive(ref([1]).value)).to.equal(true);
+
+    const cb = fake();
+    watch(() => list.value.length, cb);
+
+    list.value.push(4);
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+
+    list.value = [1];
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(1);
+  });
+
+  it('triggerRef', async () => {
+    const list = shallowRef([1, 2, 3]);
+    const cb = fake();
+    watch(() => list.value.length, cb);
+
+    list.value.push(4);
+    triggerRef(list);
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(4);
+    expect(cb.firstCall.args[1]).to.equal(3);
+  });
+
+  it('customRef', async () => {
+    const clock = useFakeTimers();
+    let value = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const debounced = customRef<number>((track, trigger) => ({
+      get() {
+        track();
+        return value;
+      },
+      set(newValue) {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          value = newValue;
+          trigger();
+        }, 200);
+      },
+    }));
+
+    const cb = fake();
+    watch(debounced, cb);
+
+    debounced.value = 1;
+    debounced.value = 2;
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+    expect(debounced.value).to.equal(0);
+
+    clock.tick(200);
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(2);
+    expect(cb.firstCall.args[1]).to.equal(0);
+
+    clock.restore();
+  });
+
+  it('watchEffect collects its dependencies automatically', async () => {
+    const count = ref(0);
+    const double = computed(() => count.value * 2);
+    const other = ref(0);
+
+    const effect = fake(() => {
+      double.value;
+    });
+    const stop = watchEffect(effect);
+    expect(effect.callCount).to.equal(1);
+
+    other.value++;
+    await nextTick();
+    expect(effect.callCount).to.equal(1);
+
+    count.value++;
+    count.value++;
+    await nextTick();
+    expect(effect.callCount).to.equal(2);
+
+    stop();
+    count.value++;
+    await nextTick();
+    expect(effect.callCount).to.equal(2);
+  });
+
+  it('watchEffect - onInvalidate is called before the next run and when it is stopped', async () => {
+    const count = ref(0);
+    const cleanup = fake();
+    const stop = watchEffect(onInvalidate => {
+      count.value;
+      onInvalidate(cleanup);
+    });
+    expect(cleanup.callCount).to.equal(0);
+
+    count.value++;
+    await nextTick();
+    expect(cleanup.callCount).to.equal(1);
+
+    stop();
+    expect(cleanup.callCount).to.equal(2);
+  });
+
+  it('watchEffect with options - specify the priority', async () => {
+    const count = ref(0);
+    const effect = fake(() => count.value);
+    watchEffect(effect, { priority: Priority.Immediate });
+
+    count.value++;
+    expect(effect.callCount).to.equal(2);
+  });
+
+  it('batch - immediate watchers are notified once at the end of the batch', async () => {
+    const a = ref(0);
+    const b = ref(0);
+    const cb = fake();
+    watch(() => a.value + b.value, cb, { priority: Priority.Immediate });
+    expect(cb.callCount).to.equal(1);
+
+    const result = batch(() => {
+      a.value = 1;
+      b.value = 2;
+      // nested batches are flushed by the outermost one
+      batch(() => {
+        a.value = 3;
+      });
+      expect(cb.callCount).to.equal(1);
+      return 'done';
+    });
+    expect(result).to.equal('done');
+    expect(cb.callCount).to.equal(2);
+    expect(cb.secondCall.args[0]).to.equal(5);
+    expect(cb.secondCall.args[1]).to.equal(0);
+  });
+
+  it('batch - computed values are up to date inside the batch', () => {
+    const count = ref(0);
+    const double = computed(() => count.value * 2);
+    expect(double.value).to.equal(0);
+    batch(() => {
+      count.value = 1;
+      expect(double.value).to.equal(2);
+    });
+  });
+
+  it('batch - the targets are notified even if the function throws', () => {
+    const count = ref(0);
+    const cb = fake();
+    watch(count, cb, { priority: Priority.Immediate });
+    expect(() =>
+      batch(() => {
+        count.value = 1;
+        throw new Error('oops');
+      })
+    ).to.throw('oops');
+    expect(cb.callCount).to.equal(2);
+  });
+
+  it('untrack() and peek() read refs without subscribing them', async () => {
+    const a = ref(0);
+    const b = ref(0);
+    const c = ref(0);
+    const sum = computed(() => a.value + untrack(() => b.value) + c.peek());
+
+    const cb = fake();
+    watch(() => sum.value, cb);
+    const peekCb = fake();
+    watch(() => sum.peek(), peekCb);
+
+    b.value = 1;
+    c.value = 1;
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+
+    a.value = 1;
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(3);
+    expect(peekCb.callCount).to.equal(0);
+  });
+
+  it('writable computed', async () => {
+    const firstName = ref('John');
+    const lastName = ref('Doe');
+    const fullName = computed({
+      get: () => `${firstName.value} ${lastName.value}`,
+      set: (value: string) => {
+        [firstName.value, lastName.value] = value.split(' ');
+      },
+    });
+
+    const cb = fake();
+    watch(fullName, cb);
+
+    expect(fullName.value).to.equal('John Doe');
+    fullName.value = 'Jane Smith';
+    expect(firstName.value).to.equal('Jane');
+    expect(lastName.value).to.equal('Smith');
+    expect(fullName.value).to.equal('Jane Smith');
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal('Jane Smith');
+    expect(cb.firstCall.args[1]).to.equal('John Doe');
+  });
+
+  it('writable computed over a reactive collection', () => {
+    const selected = reactive(new Set<number>());
+    const checked = computed({
+      get: () => selected.has(1),
+      set: (value: boolean) => {
+        value ? selected.add(1) : selected.delete(1);
+      },
+    });
+
+    expect(checked.value).to.equal(false);
+    checked.value = true;
+    expect(selected.has(1)).to.equal(true);
+    expect(checked.value).to.equal(true);
+    checked.value = false;
+    expect(checked.value).to.equal(false);
+  });
+
+  it('assigning a readonly computed is a no-op', () => {
+    const count = ref(1);
+    const double = computed(() => count.value * 2);
+    (double as any).value = 100;
+    expect(double.value).to.equal(2);
+  });
+
+  it('readonly() - a readonly view of a ref', async () => {
+    const source = ref({ count: 0 });
+    const view = readonly(source);
+    expect(isReadonly(view)).to.equal(true);
+    expect(isReadonly(source)).to.equal(false);
+
+    const cb = fake();
+    watch(view, cb);
+    const countCb = fake();
+    watch(() => view.value.count, countCb);
+
+    const consoleError = stub(console, 'error');
+    (view as any).value = { count: 100 };
+    (view.value as any).count = 100;
+    consoleError.restore();
+    expect(consoleError.callCount).to.equal(2);
+    expect(consoleError.secondCall.args[0]).to.contain('"count"');
+    expect(source.value.count).to.equal(0);
+
+    source.value.count++;
+    await nextTick();
+    expect(countCb.callCount).to.equal(1);
+    expect(view.value.count).to.equal(1);
+
+    source.value = { count: 2 };
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(countCb.callCount).to.equal(2);
+    expect(isReadonly(view.value)).to.equal(true);
+  });
+
+  it('readonly() - a readonly view of a reactive object', async () => {
+    const state = reactive({ user: { name: 'foo' }, list: [1, 2] });
+    const view = readonly(state);
+    expect(isReadonly(view)).to.equal(true);
+    expect(isReadonly(view.user)).to.equal(true);
+    expect(isReactive(view)).to.equal(true);
+    expect(toRaw(view)).to.equal(toRaw(state));
+    expect(readonly(state)).to.equal(view);
+
+    const template = html`<p>${() => view.user.name}</p>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+
+    const consoleError = stub(console, 'error');
+    (view.user as any).name = 'bar';
+    delete (view as any).user;
+    (view.list as number[]).push(3);
+    consoleError.restore();
+    expect(consoleError.callCount).to.be.at.least(3);
+    expect(toRaw(state).user.name).to.equal('foo');
+    expect(toRaw(state).list).to.eql([1, 2]);
+    expect(view.list.includes(2)).to.equal(true);
+
+    state.user.name = 'bar';
+    await nextTick();
+    expect(container.querySelector('p')!.textContent).to.equal('bar');
+  });
+
+  it('readonly() - a readonly view of a reactive collection', async () => {
+    const map = reactive(new Map([['a', { count: 0 }]]));
+    const view = readonly(map);
+
+    const cb = fake();
+    watch(() => view.get('a')?.count, cb);
+
+    const consoleError = stub(console, 'error');
+    (view as any).set('b', { count: 1 });
+    (view as any).clear();
+    (view.get('a') as any).count = 1;
+    consoleError.restore();
+    expect(consoleError.callCount).to.equal(3);
+    expect(map.size).to.equal(1);
+    expect(isReadonly([...view.values()][0])).to.equal(true);
+
+    map.get('a')!.count++;
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(1);
+  });
+
+  it('subscribe() - refs and computeds are observables', async () => {
+    const count = ref(1);
+    const double = computed(() => count.value * 2);
+    expect((count as any)[observableSymbol]()).to.equal(count);
+    expect((double as any)[observableSymbol]()).to.equal(double);
+
+    const next = fake();
+    const observer = { next: fake() };
+    const subscription = count.subscribe(next);
+    double.subscribe(observer);
+    readonly(count).subscribe(next);
+    expect(next.args).to.eql([[1], [1]]);
+    expect(observer.next.args).to.eql([[2]]);
+
+    count.value = 2;
+    await nextTick();
+    expect(next.args).to.eql([[1], [1], [2], [2]]);
+    expect(observer.next.args).to.eql([[2], [4]]);
+
+    subscription.unsubscribe();
+    count.value = 3;
+    await nextTick();
+    expect(next.callCount).to.equal(5);
+    expect(observer.next.callCount).to.equal(3);
+  });
+
+  it('subscribe() - the observer methods are called with the observer as this', async () => {
+    class Subscriber {
+      values: number[] = [];
+      isStopped = false;
+      next(value: number) {
+        !this.isStopped && this.values.push(value);
+      }
+    }
+    const count = ref(1);
+    const subscriber = new Subscriber();
+    count.subscribe(subscriber);
+    count.value = 2;
+    await nextTick();
+    expect(subscriber.values).to.eql([1, 2]);
+  });
+
+  it('snapshot() - unwraps the refs, computeds and reactive objects into plain data', async () => {
+    const count = ref(1);
+    const state = reactive({
+      count,
+      double: computed(() => count.value * 2),
+      list: [ref('a'), 'b'],
+      map: new Map([['a', { x: 1 }]]),
+      set: new Set([1, 2]),
+      date: new Date(0),
+    });
+
+    const cb = fake();
+    watchEffect(() => cb(snapshot(state)));
+    const result = cb.firstCall.args[0];
+    expect(result).to.eql({
+      count: 1,
+      double: 2,
+      list: ['a', 'b'],
+      map: new Map([['a', { x: 1 }]]),
+      set: new Set([1, 2]),
+      date: new Date(0),
+    });
+    expect(isReactive(result.map)).to.equal(false);
+    expect(result.map.get('a')).not.to.equal(toRaw(state.map).get('a'));
+    expect(structuredClone(result)).to.eql(result);
+
+    // Reading is not tracked
+    count.value = 2;
+    state.map.get('a')!.x = 2;
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(result.count).to.equal(1);
+    expect(result.map.get('a').x).to.equal(1);
+  });
+
+  it('snapshot() - copies a cyclic structure into the same cycle', () => {
+    const node: { name: string, next: unknown } = reactive({ name: 'foo', next: null });
+    node.next = ref(node);
+
+    const result = snapshot(node);
+    expect(result.name).to.equal('foo');
+    expect(result.next).to.equal(result);
+    expect(isReactive(result)).to.equal(false);
+  });
 });
@@ -1,6 +1,25 @@
-import { currentInstance } from './defineElement.js';
-import { Priority, queueTask } from './scheduler.js';
-import { isObject } from './utils.js';
+import { effectScope, getCurrentScope } from './effectScope.js';
+import { callWithErrorHandling } from './errorHandling.js';
+import { isReadonlyProxy, readonlyProxy, toRaw, toReactive, toReadonly } from './reactiveProxy.js';
+import {
+  Priority,
+  TaskTrigger,
+  queuePostFlushTask,
+  queuePreTask,
+  queueTask,
+  runWithTaskTrigger,
+  setTaskLabel,
+} from './scheduler.js';
+import {
+  hasSignalSources,
+  isSignalTracking,
+  releaseSignals,
+  runWithSignals,
+  trackSignal,
+  triggerSignal,
+  untrackSignals,
+} from './signals.js';
+import { error, isArray, isObject, isPlainObject } from './utils.js';
 
 /**
  * For the relationship between the template and the ref:
@@ -10,10 +29,14 @@ import { isObject } from './utils.js';
  * For the relationship between the ref and the watcher:
  * - We artificially create a target and a specifier
  */
-type Specifier = string;
-type Target = {
+export type Specifier = string;
+export type Target = {
   update(specifier: string): any,
   isInUse: boolean,
+  // A sync target is updated right away even inside a batch, e.g. a computed marking itself as dirty
+  isSync?: boolean,
+  // An immediate target must know right away whether the computeds it reads have changed, e.g. an immediate watcher
+  isImmediate?: boolean,
 };
 interface ReactiveContext {
   target?: Target;
@@ -31,7 +54,373 @@ export function popReactiveContextStack() {
 }
 
 type Specifiers = Set<Specifier>;
-type Deps = Map<Target, Specifiers>;
+export type Deps = Map<Target, Specifiers>;
+
+/**
+ * Whether a read happening right now would be collected as a dependency.
+ */
+export function isTracking() {
+  const { target, specifier } = reactiveContextStack.at(-1) || {};
+  return !!(target && specifier);
+}
+
+/**
+ * Collect the current reactive context into the given deps.
+ */
+export function track(deps: Deps) {
+  trackSignal(deps);
+  const { target: currentTarget, specifier: currentSpecifier } = reactiveContextStack.at(-1) || {};
+  if (!currentTarget || !currentSpecifier) {
+    return;
+  }
+  let specifiers = deps.get(currentTarget);
+  if (!specifiers) {
+    specifiers = new Set();
+    deps.set(currentTarget, specifiers);
+  }
+  specifiers.add(currentSpecifier);
+
+  let subscriptions = targetSubscriptions.get(currentTarget);
+  if (!subscriptions) {
+    subscriptions = new Map();
+    targetSubscriptions.set(currentTarget, subscriptions);
+  }
+  let depsSet = subscriptions.get(currentSpecifier);
+  if (!depsSet) {
+    depsSet = new Set();
+    subscriptions.set(currentSpecifier, depsSet);
+  }
+  if (__ENV__ === 'development' && !depsSet.has(deps)) {
+    targetDebuggerOptions.get(currentTarget)?.onTrack?.({
+      type: 'track',
+      target: currentTarget,
+      specifier: currentSpecifier,
+      source: undefined,
+      ...depsSources.get(deps),
+    });
+  }
+  depsSet.add(deps);
+}
+
+/**
+ * The other side of the deps: every deps a target is collected into, by specifier,
+ * so that a target is able to unsubscribe on its own.
+ */
+const targetSubscriptions = new WeakMap<Target, Map<Specifier, Set<Deps>>>();
+// Called when the last target unsubscribes from the deps, e.g. a computed releasing its own sources
+const depsEmptiedCallbacks = new WeakMap<Deps, () => void>();
+
+/**
+ * @public
+ */
+export interface DebuggerEvent {
+  type: 'track' | 'trigger';
+  // The template, or the internal target of a watcher or a computed
+  target: object;
+  // The dynamic part of the template, or the internal specifier of a watcher or a computed
+  specifier: string;
+  // The ref, the computed or the raw reactive object owning the dependency, it is only known in dev builds
+  source: unknown;
+  // The key of the reactive object
+  key?: unknown;
+}
+
+/**
+ * @public
+ * The hooks are only called in dev builds.
+ */
+export interface DebuggerOptions {
+  onTrack?: (event: DebuggerEvent) => void;
+  onTrigger?: (event: DebuggerEvent) => void;
+}
+
+/**
+ * @public
+ */
+export interface Dependency {
+  specifier: string;
+  source: unknown;
+  key?: unknown;
+}
+
+const targetDebuggerOptions = new WeakMap<Target, DebuggerOptions>();
+// Dev only, the owners of the deps, so that the debugger events are able to report them
+const depsSources = new WeakMap<Deps, { source: unknown, key?: unknown }>();
+
+export function setDebuggerOptions(target: Target, options: DebuggerOptions) {
+  if (options.onTrack || options.onTrigger) {
+    targetDebuggerOptions.set(target, options);
+  }
+}
+
+export function setDepsSource(deps: Deps, source: unknown, key?: unknown) {
+  depsSources.set(deps, { source, key });
+}
+
+function debugTrigger(target: Target, specifiers: Specifiers, deps: Deps) {
+  const onTrigger = targetDebuggerOptions.get(target)?.onTrigger;
+  onTrigger && specifiers.forEach(specifier => {
+    onTrigger({ type: 'trigger', target, specifier, source: undefined, ...depsSources.get(deps) });
+  });
+}
+
+/**
+ * The refs, computeds and reactive object keys the target currently depends on, by specifier.
+ */
+export function getDependencies(target: Target): Dependency[] {
+  const dependencies: Dependency[] = [];
+  targetSubscriptions.get(target)?.forEach((depsSet, specifier) => {
+    depsSet.forEach(deps => dependencies.push({ specifier, source: undefined, ...depsSources.get(deps) }));
+  });
+  return dependencies;
+}
+
+function unsubscribe(deps: Deps, target: Target, specifier: Specifier) {
+  const specifiers = deps.get(target);
+  if (!specifiers) {
+    return;
+  }
+  specifiers.delete(specifier);
+  if (specifiers.size === 0) {
+    deps.delete(target);
+    deps.size === 0 && depsEmptiedCallbacks.get(deps)?.();
+  }
+}
+
+function getSubscribedDeps(target: Target): Deps[] {
+  const subscribedDeps: Deps[] = [];
+  targetSubscriptions.get(target)?.forEach(depsSet => subscribedDeps.push(...depsSet));
+  return subscribedDeps;
+}
+
+/**
+ * Remove the target from every deps it is collected into, or only the given specifier of the target.
+ */
+export function cleanupTarget(target: Target, specifier?: Specifier) {
+  const subscriptions = targetSubscriptions.get(target);
+  if (!subscriptions) {
+    return;
+  }
+  const specifiers = specifier === undefined ? [...subscriptions.keys()] : [specifier];
+  specifiers.forEach(spec => {
+    const depsSet = subscriptions.get(spec);
+    subscriptions.delete(spec);
+    depsSet?.forEach(deps => unsubscribe(deps, target, spec));
+    releaseSignals(target, spec);
+  });
+}
+
+/**
+ * Run the function in the reactive context of the target and specifier, the deps collected by the previous run
+ * of the same specifier but not by this one are unsubscribed.
+ */
+export function runInReactiveContext<T>(target: Target, specifier: Specifier, fn: () => T): T {
+  let subscriptions = targetSubscriptions.get(target);
+  if (!subscriptions) {
+    subscriptions = new Map();
+    targetSubscriptions.set(target, subscriptions);
+  }
+  const previousDepsSet = subscriptions.get(specifier);
+  const depsSet = new Set<Deps>();
+  subscriptions.set(specifier, depsSet);
+  pushReactiveContextStack({ target, specifier });
+  try {
+    return runWithSignals(target, specifier, fn);
+  } finally {
+    popReactiveContextStack();
+    // Unsubscribe after running the function rather than before, so that a computed read by both runs
+    // is not released and evaluated again in between
+    previousDepsSet?.forEach(deps => !depsSet.has(deps) && unsubscribe(deps, target, specifier));
+  }
+}
+
+let batchDepth = 0;
+// The targets and specifiers waiting to be notified when the outermost batch ends
+const pendingUpdates: Deps = new Map();
+// Increases on every notification of the deps, an unobserved computed keeps its value as long as the versions
+// of the deps it depends on are unchanged
+const depsVersions = new WeakMap<Deps, number>();
+
+/**
+ * Notify every target collected in the given deps. A target that is collected by more than one of them
+ * will only be notified once per specifier.
+ */
+export function trigger(...depsList: Deps[]) {
+  depsList.forEach(deps => {
+    depsVersions.set(deps, (depsVersions.get(deps) || 0) + 1);
+    triggerSignal(deps);
+    for (const [target, specifiers] of deps) {
+      // Prune the target if it is no longer in use
+      if (!target.isInUse) {
+        __ENV__ === 'development' && reportLeak(target);
+        deps.delete(target);
+        continue;
+      }
+      __ENV__ === 'development' && debugTrigger(target, specifiers, deps);
+      if (target.isSync) {
+        specifiers.forEach(specifier => target.update(specifier));
+        continue;
+      }
+      addPendingUpdate(target, specifiers, deps);
+    }
+  });
+  if (batchDepth === 0) {
+    flushPendingUpdates();
+  }
+}
+
+/**
+ * The targets unsubscribe on their own when they are disposed, e.g. an unmounted template or a stopped watcher,
+ * a target which is no longer in use but still subscribed is leaking.
+ */
+function reportLeak(target: Target) {
+  error('A target is still subscribed after it was disposed, it should have been cleaned up, target is:', target);
+}
+
+// Dev only, the last deps notifying every pending target, so that an infinite update loop can name its source
+const pendingUpdateDeps = new Map<Target, Deps>();
+
+function addPendingUpdate(target: Target, specifiers: Specifiers, deps: Deps) {
+  __ENV__ === 'development' && pendingUpdateDeps.set(target, deps);
+  let collected = pendingUpdates.get(target);
+  if (!collected) {
+    collected = new Set();
+    pendingUpdates.set(target, collected);
+  }
+  specifiers.forEach(specifier => collected.add(specifier));
+}
+
+function settle(nodes: ComputedNode<any>[]) {
+  nodes.forEach(node => staleComputeds.delete(node));
+  // A computed throwing must neither throw into the ref writer nor prevent the other targets from being notified
+  nodes.forEach(node => callWithErrorHandling(() => node.settle(), 'computed'));
+}
+
+function settleStaleComputeds() {
+  settle([...staleComputeds]);
+  flushPendingUpdates();
+}
+
+function flushPendingUpdates() {
+  // Settle the computeds first, so that the targets reading them are only notified if they have changed.
+  // Only the ones read by the immediate targets are settled right away, the others are settled once before
+  // the next task, no matter how many times their sources are written until then
+  if (staleComputeds.size > 0) {
+    settle([...staleComputeds].filter(node => node.hasImmediateSubscribers()));
+    staleComputeds.size > 0 && queuePreTask(settleStaleComputeds);
+  }
+  // The updates could trigger new updates, so take a snapshot of the current ones first
+  const toBeUpdated = [...pendingUpdates];
+  pendingUpdates.clear();
+  toBeUpdated.forEach(([target, specifiers]) => {
+    const update = () => specifiers.forEach(specifier => target.update(specifier));
+    if (__ENV__ === 'development') {
+      const deps = pendingUpdateDeps.get(target);
+      pendingUpdateDeps.delete(target);
+      deps ? runWithTaskTrigger(describeDepsSource(deps), update) : update();
+    } else {
+      update();
+    }
+  });
+}
+
+/**
+ * Dev only, describe the ref, computed or reactive object key owning the deps, for the errors.
+ */
+function describeDepsSource(deps: Deps): TaskTrigger {
+  const { source, key } = depsSources.get(deps) || {};
+  let label = 'an unknown source';
+  if (source instanceof Ref) {
+    label = 'a ref';
+  } else if (isComputed(source)) {
+    label = 'a computed';
+  } else if (source) {
+    label = key === undefined ? 'a reactive object' : `the key "${String(key)}" of a reactive object`;
+  }
+  return { label, source };
+}
+
+/**
+ * @public
+ * Run the given function, the targets affected by the ref writes inside it are notified only once,
+ * after the function returns. Batches can be nested, only the outermost one notifies the targets.
+ */
+export function batch<T>(fn: () => T): T {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      flushPendingUpdates();
+    }
+  }
+}
+
+/**
+ * @public
+ * Run the given function without collecting the refs it reads as dependencies of the current template getter,
+ * computed or watcher.
+ */
+export function untrack<T>(fn: () => T): T {
+  pushReactiveContextStack({});
+  try {
+    return untrackSignals(fn);
+  } finally {
+    popReactiveContextStack();
+  }
+}
+
+/**
+ * @public
+ * Decide whether a new value is the same as the old one, in which case the dependents are not notified.
+ */
+export type EqualityFn<T> = (oldValue: T, newValue: T) => boolean;
+
+/**
+ * @public
+ */
+export interface RefOptions<T> {
+  /**
+   * Defaults to Object.is, the raw values are compared for reactive objects.
+   */
+  equals?: EqualityFn<T>;
+}
+
+/**
+ * @public
+ * The observer of a ref or a computed, refs never error nor complete, the other callbacks exist for
+ * the compatibility with the observable libraries.
+ */
+export interface Observer<T> {
+  next?(value: T): void;
+  error?(err: unknown): void;
+  complete?(): void;
+}
+
+/**
+ * @public
+ */
+export interface Subscription {
+  unsubscribe(): void;
+}
+
+// RxJS and the other observable libraries look up the interop method by Symbol.observable, which is not standard yet
+export const observableSymbol: symbol | '@@observable' = (Symbol as any).observable || '@@observable';
+
+function subscribeRef<T>(source: { readonly value: T }, observer: Observer<T> | ((value: T) => void)): Subscription {
+  // The subscription is owned by the subscriber, it must not be stopped by the current effect scope
+  const scope = effectScope(true);
+  scope.run(() =>
+    watch(() => source.value, value => {
+      // The observer may be an instance relying on its this, e.g. an RxJS Subscriber
+      typeof observer === 'function' ? observer(value) : observer.next?.(value);
+    }, { immediate: true })
+  );
+  return {
+    unsubscribe: () => scope.stop(),
+  };
+}
 
 /**
  * @public
@@ -40,44 +429,140 @@ export class Ref<T = unknown> {
   #value: T;
   #deps: Deps = new Map();
   constructor(value: T) {
-    this.#value = value;
+    this.#value = toReactive(value);
+    refDeps.set(this, this.#deps);
+    __ENV__ === 'development' && setDepsSource(this.#deps, this);
   }
 
   get value() {
-    const { target: currentTarget, specifier: currentSpecifier } = reactiveContextStack.at(-1) || {};
-    if (currentTarget && currentSpecifier) {
-      let deps = this.#deps.get(currentTarget);
-      if (!deps) {
-        deps = new Set();
-        this.#deps.set(currentTarget, deps);
-      }
-      deps.add(currentSpecifier);
-    }
+    track(this.#deps);
     return this.#value;
   }
 
+  /**
+   * Read the value without subscribing the ref.
+   */
+  peek() {
+    return untrack(() => this.value);
+  }
+
   set value(newValue: T) {
-    this.#value = newValue;
-    for (const [target, specifiers] of this.#deps) {
-      // Prune the target if it is no longer in use
-      if (!target.isInUse) {
-        this.#deps.delete(target);
-        continue;
-      }
-      specifiers.forEach(specifier => {
-        target.update(specifier);
-      });
+    if (Object.is(toRaw(this.#value), toRaw(newValue))) {
+      return;
     }
+    this.#value = toReactive(newValue);
+    trigger(this.#deps);
+  }
+
+  /**
+   * Observe the value, the observer is called with the current value right away, and then whenever it changes.
+   * Together with Symbol.observable, it makes the ref consumable by RxJS, e.g. `from(ref)`.
+   */
+  subscribe(observer: Observer<T> | ((value: T) => void)): Subscription {
+    return subscribeRef(this, observer);
   }
 }
 
+(Ref.prototype as any)[observableSymbol] = function() {
+  return this;
+};
+
 let uniqueSpecifierId = 0;
 
+// The deps of the refs are kept off their public interface
+const refDeps = new WeakMap<Ref<any>, Deps>();
+
+function createRef<T>(value: T, isShallow: boolean, equals: EqualityFn<T> = Object.is): Ref<T> {
+  const toStored = (newValue: T) => isShallow ? newValue : toReactive(newValue);
+  let stored = toStored(value);
+  return customRef((track, trigger) => ({
+    get() {
+      track();
+      return stored;
+    },
+    set(newValue) {
+      if (equals(toRaw(stored), toRaw(newValue))) {
+        return;
+      }
+      stored = toStored(newValue);
+      trigger();
+    },
+  }));
+}
+
 /**
  * @public
  */
-export function ref<T = unknown>(value: T) {
-  return new Ref<T>(value);
+export function ref<T = unknown>(value: T, options?: RefOptions<T>) {
+  return options?.equals ? createRef(value, false, options.equals) : new Ref<T>(value);
+}
+
+/**
+ * @public
+ * Only the reassignment of `.value` is reactive, the value itself is kept as is,
+ * which makes it suitable for large immutable data.
+ */
+export function shallowRef<T = unknown>(value: T, options?: RefOptions<T>) {
+  return createRef(value, true, options?.equals);
+}
+
+/**
+ * @public
+ * Notify every target subscribing the ref, it is useful after mutating the value of a shallowRef in place.
+ */
+export function triggerRef(ref: Ref<any>) {
+  trigger(refDeps.get(ref)!);
+}
+
+/**
+ * @public
+ */
+export type CustomRefFactory<T> = (track: () => void, trigger: () => void) => {
+  get: () => T,
+  set: (value: T) => void,
+};
+
+class CustomRef<T> extends Ref<T> {
+  #get: () => T;
+  #set: (value: T) => void;
+  constructor(factory: CustomRefFactory<T>) {
+    super(undefined as T);
+    const deps = refDeps.get(this)!;
+    const { get, set } = factory(() => track(deps), () => trigger(deps));
+    this.#get = get;
+    this.#set = set;
+  }
+
+  get value() {
+    return this.#get();
+  }
+
+  set value(newValue: T) {
+    this.#set(newValue);
+  }
+}
+
+/**
+ * @public
+ * Create a ref with explicit control over when it is tracked and when it triggers the updates, e.g. a debounced ref:
+ * ```ts
+ * customRef((track, trigger) => ({
+ *   get() {
+ *     track();
+ *     return value;
+ *   },
+ *   set(newValue) {
+ *     clearTimeout(timer);
+ *     timer = setTimeout(() => {
+ *       value = newValue;
+ *       trigger();
+ *     }, 200);
+ *   },
+ * }));
+ * ```
+ */
+export function customRef<T>(factory: CustomRefFactory<T>): Ref<T> {
+  return new CustomRef(factory);
 }
 
 /**
@@ -85,51 +570,483 @@ export function ref<T = unknown>(value: T) {
  */
 export interface ComputedRef<T> {
   readonly value: T;
+  /**
+   * Read the value without subscribing the computed.
+   */
+  peek(): T;
+  /**
+   * Observe the value, the observer is called with the current value right away, and then whenever it changes.
+   */
+  subscribe(observer: Observer<T> | ((value: T) => void)): Subscription;
   __isComputed: true;
 }
 
-function isComputed(value: any): value is ComputedRef<any> {
-  return isObject(value) && value.__isComputed;
+/**
+ * @public
+ */
+export interface WritableComputedRef<T> extends ComputedRef<T> {
+  value: T;
 }
 
 /**
  * @public
  */
-export function computed<T>(getter: () => T): ComputedRef<T> {
-  const signal = ref(0);
+export interface WritableComputedOptions<T> {
+  get: () => T;
+  set: (value: T) => void;
+}
 
-  let isDirty = true;
-  let innerValue: T;
-  const specifier = `_computed_${uniqueSpecifierId++}_`;
-  const target: Target = {
-    update(_specifier: string) {
-      isDirty = true;
-      signal.value++;
-    },
-    isInUse: true,
-  };
+/**
+ * @public
+ */
+export interface ComputedOptions<T> extends DebuggerOptions {
+  /**
+   * Defaults to Object.is, when the recomputed value equals the previous one, the dependents are not notified.
+   */
+  equals?: EqualityFn<T>;
+}
 
-  currentInstance?.registerCleanup(() => target.isInUse = false);
+export function isComputed(value: any): value is ComputedRef<any> {
+  return isObject(value) && value.__isComputed;
+}
 
-  const reactiveContext: ReactiveContext = {
-    target,
-    specifier,
-  };
+enum ComputedState {
+  Clean,
+  // One of the computeds it reads may have changed
+  Check,
+  // One of the refs it reads has changed
+  Dirty,
+}
 
-  return {
+// The computeds being evaluated, from the outermost one, for reporting the cycles
+const evaluatingComputeds: ComputedNode<any>[] = [];
+
+// The computeds whose non-sync subscribers (templates, watchers) are waiting for them to be re-validated
+const staleComputeds = new Set<ComputedNode<any>>();
+
+/**
+ * A computed is evaluated lazily, a change is propagated in two phases:
+ * - push: a ref write marks the computeds reading it as Dirty, and the computeds downstream as Check,
+ *   no getter is run in this phase
+ * - pull: reading a computed, or re-validating it before its templates and watchers are notified, checks its
+ *   upstream computeds first, the getter only runs if one of the refs or computeds it read has really changed
+ * Every time the value of a computed changes, its version increases, which is how a downstream computed
+ * knows whether it has to be re-evaluated. The templates and watchers are only notified after the whole graph
+ * is re-validated, so they never observe an intermediate state and are notified once per change.
+ */
+class ComputedNode<T> implements Target {
+  isInUse = true;
+  isSync = true;
+  deps: Deps = new Map();
+  version = 0;
+  #state = ComputedState.Dirty;
+  #value!: T;
+  #hasValue = false;
+  // The last evaluation threw, the subscribers must be notified again by the next change of the sources
+  #hasError = false;
+  // The computeds read by the last evaluation, with their versions at that time
+  #sources = new Map<ComputedNode<any>, number>();
+  // The refs and reactive object keys read by the last unobserved evaluation, through the upstream computeds too,
+  // with their versions at that time, the cached value is valid as long as they are unchanged
+  #detachedSources: Map<Deps, number> | null = null;
+  // The version seen by the non-sync subscribers when the computed became stale
+  #staleVersion = 0;
+  #getter: () => T;
+  #equals: EqualityFn<T>;
+  #specifier = `_computed_${uniqueSpecifierId++}_`;
+
+  constructor(getter: () => T, equals: EqualityFn<T>) {
+    this.#getter = getter;
+    this.#equals = equals;
+    depsEmptiedCallbacks.set(this.deps, () => this.#release());
+  }
+
+  /**
+   * Nothing is reading the computed anymore, unsubscribe from its sources and drop the cached value,
+   * the next read evaluates it and subscribes the sources again.
+   */
+  #release() {
+    cleanupTarget(this);
+    this.#sources.clear();
+    this.#state = ComputedState.Dirty;
+    this.#value = undefined as T;
+    this.#hasValue = false;
+    this.#hasError = false;
+    this.#detachedSources = null;
+    staleComputeds.delete(this);
+  }
+
+  /**
+   * Unsubscribe from the sources after an unobserved read, but keep the cached value.
+   */
+  #detach() {
+    const detachedSources = new Map<Deps, number>();
+    if (!this.#collectDepsVersions(detachedSources)) {
+      // The standard signals it reads have no versions, the value can't be kept
+      this.#release();
+      return;
+    }
+    cleanupTarget(this);
+    this.#sources.clear();
+    this.#state = ComputedState.Dirty;
+    this.#detachedSources = detachedSources;
+    staleComputeds.delete(this);
+  }
+
+  /**
+   * Collect the versions of the deps read by the last evaluation, the deps of the upstream computeds are replaced
+   * by their own deps. Returns false if a standard signal is read.
+   */
+  #collectDepsVersions(versions: Map<Deps, number>): boolean {
+    if (hasSignalSources(this)) {
+      return false;
+    }
+    const upstream = new Map([...this.#sources.keys()].map(node => [node.deps, node]));
+    let isComplete = true;
+    getSubscribedDeps(this).forEach(deps => {
+      const node = upstream.get(deps);
+      if (node) {
+        isComplete = node.#collectDepsVersions(versions) && isComplete;
+      } else {
+        versions.set(deps, depsVersions.get(deps) || 0);
+      }
+    });
+    return isComplete;
+  }
+
+  #isDetachedValueValid() {
+    if (!this.#detachedSources) {
+      return false;
+    }
+    for (const [deps, version] of this.#detachedSources) {
+      if ((depsVersions.get(deps) || 0) !== version) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  dispose() {
+    this.isInUse = false;
+    this.#release();
+  }
+
+  update(_specifier: string) {
+    this.#invalidate(ComputedState.Dirty);
+  }
+
+  #invalidate(state: ComputedState) {
+    const wasClean = this.#state === ComputedState.Clean || this.#hasError;
+    if (state > this.#state) {
+      this.#state = state;
+    }
+    // The subscribers have already been informed since the last time the computed was clean
+    if (!wasClean) {
+      return;
+    }
+    this.#hasError = false;
+    triggerSignal(this.deps);
+    for (const target of this.deps.keys()) {
+      if (!target.isInUse) {
+        this.deps.delete(target);
+      } else if (target instanceof ComputedNode) {
+        target.#invalidate(ComputedState.Check);
+      } else if (!staleComputeds.has(this)) {
+        this.#staleVersion = this.version;
+        staleComputeds.add(this);
+      }
+    }
+    if (this.deps.size === 0) {
+      this.#release();
+    }
+  }
+
+  /**
+   * Bring the value up to date, without notifying anyone.
+   */
+  refresh() {
+    if (this.#state === ComputedState.Check) {
+      for (const [source, version] of this.#sources) {
+        source.refresh();
+        if (source.version !== version) {
+          this.#state = ComputedState.Dirty;
+          break;
+        }
+      }
+    }
+    const shouldEvaluate = this.#state === ComputedState.Dirty;
+    this.#state = ComputedState.Clean;
+    if (shouldEvaluate) {
+      try {
+        this.#evaluate();
+      } catch (err) {
+        // The error is thrown to the reader, the next read evaluates the computed again
+        this.#state = ComputedState.Dirty;
+        this.#hasError = true;
+        throw err;
+      }
+    }
+  }
+
+  #evaluate() {
+    this.#detachedSources = null;
+    this.#sources = new Map();
+    evaluatingComputeds.push(this);
+    let newValue: T;
+    try {
+      newValue = runInReactiveContext(this, this.#specifier, this.#getter);
+    } finally {
+      evaluatingComputeds.pop();
+    }
+    if (!this.#hasValue || !this.#equals(this.#value, newValue)) {
+      this.#value = newValue;
+      this.#hasValue = true;
+      this.version++;
+    }
+  }
+
+  read() {
+    // A computed reading itself, directly or through other computeds, gets its previous value
+    if (evaluatingComputeds.includes(this)) {
+      __ENV__ === 'development' && error(
+        `Cycle detected, the computed reads itself: ${
+          [...evaluatingComputeds.slice(evaluatingComputeds.indexOf(this)), this].map(node => node.#specifier)
+            .join(' -> ')
+        }`,
+      );
+      return this.#value;
+    }
+    // A disposed computed must not subscribe its sources again, it is evaluated on every read
+    if (!this.isInUse) {
+      return untrack(this.#getter);
+    }
+    // Nothing it depends on has been written since the last unobserved read
+    if (!isTracking() && !isSignalTracking() && this.#isDetachedValueValid()) {
+      return this.#value;
+    }
+    try {
+      this.refresh();
+      const { target } = reactiveContextStack.at(-1) || {};
+      if (target instanceof ComputedNode) {
+        target.#sources.set(this, this.version);
+      }
+      return this.#value;
+    } finally {
+      // The reader is subscribed even if the getter throws, so that it is notified when the computed recovers
+      track(this.deps);
+      // Nothing observes the computed, e.g. a read outside of any template, watcher or computed,
+      // its sources must not keep it subscribed until their next write
+      if (this.deps.size === 0 && !isSignalTracking()) {
+        this.#hasError ? this.#release() : this.#detach();
+      }
+    }
+  }
+
+  hasImmediateSubscribers() {
+    for (const target of this.deps.keys()) {
+      if (target.isImmediate && target.isInUse) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Re-validate a stale computed, its non-sync subscribers are notified only if its value has changed.
+   */
+  settle() {
+    this.refresh();
+    if (this.version === this.#staleVersion) {
+      return;
+    }
+    for (const [target, specifiers] of this.deps) {
+      if (!target.isSync && target.isInUse) {
+        __ENV__ === 'development' && debugTrigger(target, specifiers, this.deps);
+        addPendingUpdate(target, specifiers, this.deps);
+      }
+    }
+  }
+}
+
+/**
+ * @public
+ */
+export function computed<T>(getter: () => T, options?: ComputedOptions<T>): ComputedRef<T>;
+/**
+ * @public
+ * A writable computed, assigning its value calls the given setter which usually writes the refs the getter reads.
+ */
+export function computed<T>(options: WritableComputedOptions<T>, computedOptions?: ComputedOptions<T>): WritableComputedRef<T>;
+export function computed<T>(
+  getterOrOptions: (() => T) | WritableComputedOptions<T>,
+  options: ComputedOptions<T> = {},
+) {
+  const getter = typeof getterOrOptions === 'function' ? getterOrOptions : getterOrOptions.get;
+  const setter = typeof getterOrOptions === 'function' ? null : getterOrOptions.set;
+  const node = new ComputedNode(getter, options.equals || Object.is);
+
+  getCurrentScope()?.addCleanup(() => node.dispose());
+
+  const computedRef = {
     get value() {
-      signal.value; // trigger the access
-      if (!isDirty) {
-        return innerValue;
+      return node.read();
+    },
+    set value(newValue: T) {
+      if (!setter) {
+        __ENV__ === 'development' && error('The computed value is readonly, you should provide a setter to write it.');
+        return;
       }
-      pushReactiveContextStack(reactiveContext);
-      isDirty = false;
-      innerValue = getter();
-      popReactiveContextStack();
-      return innerValue;
+      setter(newValue);
     },
-    __isComputed: true,
+    peek() {
+      return untrack(() => this.value);
+    },
+    subscribe(observer: Observer<T> | ((value: T) => void)) {
+      return subscribeRef(this, observer);
+    },
+    [observableSymbol]() {
+      return this;
+    },
+    __isComputed: true as const,
   };
+  if (__ENV__ === 'development') {
+    setDepsSource(node.deps, computedRef);
+    setDebuggerOptions(node, options);
+  }
+  return computedRef;
+}
+
+/**
+ * @public
+ */
+export type DeepReadonly<T> = T extends (...args: any[]) => any ? T
+  : T extends Map<infer K, infer V> ? ReadonlyMap<K, DeepReadonly<V>>
+  : T extends Set<infer U> ? ReadonlySet<DeepReadonly<U>>
+  : T extends object ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+  : T;
+
+/**
+ * @public
+ */
+export interface ReadonlyRef<T> {
+  readonly value: DeepReadonly<T>;
+  /**
+   * Read the value without subscribing the source ref.
+   */
+  peek(): DeepReadonly<T>;
+  /**
+   * Observe the value of the source ref, see Ref.subscribe().
+   */
+  subscribe(observer: Observer<DeepReadonly<T>> | ((value: DeepReadonly<T>) => void)): Subscription;
+  readonly __isReadonly: true;
+}
+
+class ReadonlyRefView<T> extends Ref<T> {
+  #source: Ref<T> | ComputedRef<T>;
+  readonly __isReadonly = true;
+  constructor(source: Ref<T> | ComputedRef<T>) {
+    super(undefined as T);
+    this.#source = source;
+  }
+
+  get value() {
+    return toReadonly(this.#source.value);
+  }
+
+  set value(_newValue: T) {
+    __ENV__ === 'development' && error(`Failed to set the key "value", the ref is readonly, ref is:`, this.#source);
+  }
+}
+
+/**
+ * @public
+ * Returns a readonly view of a ref, a computed or a reactive object, reading it is tracked as usual,
+ * writing it is rejected. The nested objects read from the view are readonly as well.
+ */
+export function readonly<T>(target: Ref<T> | ComputedRef<T>): ReadonlyRef<T>;
+/**
+ * @public
+ */
+export function readonly<T extends object>(target: T): DeepReadonly<T>;
+export function readonly(target: any) {
+  if (isReadonly(target)) {
+    return target;
+  }
+  if (target instanceof Ref || isComputed(target)) {
+    return new ReadonlyRefView(target);
+  }
+  return readonlyProxy(target);
+}
+
+/**
+ * @public
+ */
+export function isReadonly(value: unknown): boolean {
+  return value instanceof ReadonlyRefView || isReadonlyProxy(value);
+}
+
+/**
+ * @public
+ * The plain data a value is unwrapped into by snapshot().
+ */
+export type Snapshot<T> = T extends (...args: any[]) => any ? T
+  : T extends ComputedRef<infer R> ? Snapshot<R>
+  : T extends ReadonlyRef<infer R> ? Snapshot<R>
+  : T extends Ref<infer R> ? Snapshot<R>
+  : T extends Map<infer K, infer V> ? Map<Snapshot<K>, Snapshot<V>>
+  : T extends Set<infer U> ? Set<Snapshot<U>>
+  : T extends object ? { -readonly [K in keyof T]: Snapshot<T[K]> }
+  : T;
+
+function unwrap(value: unknown, seen: Map<object, unknown>): unknown {
+  if (value instanceof Ref || isComputed(value)) {
+    return unwrap(value.value, seen);
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  const raw = toRaw(value);
+  // A cyclic structure is copied into the same cycle
+  if (seen.has(raw)) {
+    return seen.get(raw);
+  }
+  if (isArray(raw)) {
+    const copy: unknown[] = [];
+    seen.set(raw, copy);
+    raw.forEach(item => copy.push(unwrap(item, seen)));
+    return copy;
+  }
+  if (raw instanceof Map) {
+    const copy = new Map();
+    seen.set(raw, copy);
+    raw.forEach((item, key) => copy.set(unwrap(key, seen), unwrap(item, seen)));
+    return copy;
+  }
+  if (raw instanceof Set) {
+    const copy = new Set();
+    seen.set(raw, copy);
+    raw.forEach(item => copy.add(unwrap(item, seen)));
+    return copy;
+  }
+  if (isPlainObject(raw)) {
+    const copy: Record<string, unknown> = {};
+    seen.set(raw, copy);
+    Object.keys(raw).forEach(key => {
+      copy[key] = unwrap(raw[key], seen);
+    });
+    return copy;
+  }
+  // The other objects, e.g. Date, are kept as is
+  return raw;
+}
+
+/**
+ * @public
+ * Deeply unwrap the refs, computeds and reactive objects into plain data, e.g. for logging, postMessage()
+ * or JSON.stringify(). The returned data shares nothing with the reactive state, reading is not tracked.
+ */
+export function snapshot<T>(value: T): Snapshot<T> {
+  return untrack(() => unwrap(value, new Map())) as Snapshot<T>;
 }
 
 /**
@@ -150,10 +1067,54 @@ export type OnInvalidateFn = (cb: CallableFunction) => void;
 /**
  * @public
  */
-export interface WatchOptions {
+export interface WatchEffectOptions extends DebuggerOptions {
   priority?: Priority;
+  /**
+   * 'pre' runs the watcher before the template updates queued by the same change,
+   * 'post' runs it after all of them, when the DOM has been patched. It takes precedence over the priority.
+   */
+  flush?: 'pre' | 'post';
 }
 
+/**
+ * @public
+ */
+export interface WatchOptions extends WatchEffectOptions {
+  /**
+   * Call the callback with the initial value right away.
+   */
+  immediate?: boolean;
+  /**
+   * Stop watching after the callback is called for the first time.
+   */
+  once?: boolean;
+  /**
+   * Subscribe every nested property of the watched value, so that mutating any of them calls the callback.
+   */
+  deep?: boolean;
+}
+
+/**
+ * @public
+ */
+export type WatchSource<T = any> = Ref<T> | ComputedRef<T> | ReadonlyRef<T> | (() => T);
+
+/**
+ * @public
+ */
+export type WatchSourceValue<S> = S extends ComputedRef<infer R> ? R
+  : S extends ReadonlyRef<infer R> ? DeepReadonly<R>
+  : S extends Ref<infer R> ? R
+  : S extends () => infer R ? R
+  : never;
+
+/**
+ * @public
+ */
+export type WatchSourcesValues<T extends readonly WatchSource[]> = {
+  [K in keyof T]: WatchSourceValue<T[K]>;
+};
+
 /**
  * @public
  */
@@ -168,6 +1129,22 @@ export function watch<
   T extends Ref<any>,
   V = T extends Ref<infer R> ? R : never,
 >(ref: T, callback: WatchCallback<V>, options?: WatchOptions): UnwatchFn;
+/**
+ * @public
+ */
+export function watch<
+  T extends ReadonlyRef<any>,
+  V = T extends ReadonlyRef<infer R> ? DeepReadonly<R> : never,
+>(ref: T, callback: WatchCallback<V>, options?: WatchOptions): UnwatchFn;
+/**
+ * @public
+ * Watch several sources at once, the callback receives the values of all the sources in the same order.
+ */
+export function watch<T extends readonly WatchSource[]>(
+  sources: [...T],
+  callback: WatchCallback<WatchSourcesValues<T>>,
+  options?: WatchOptions,
+): UnwatchFn;
 /**
  * @public
  */
@@ -176,11 +1153,12 @@ export function watch<
   R = ReturnType<Getter>,
 >(getter: Getter, callback: WatchCallback<R>, options?: WatchOptions): UnwatchFn;
 
-export function watch(getterOrRef: any, callback: any, options?: WatchOptions) {
-  const { priority = Priority.Low } = options || {};
+export function watch(source: any, callback: any, options?: WatchOptions) {
+  const { priority = Priority.Low, immediate = false, once = false, deep = false } = options || {};
 
-  const isRef = getterOrRef instanceof Ref || isComputed(getterOrRef);
-  const getter = isRef ? () => getterOrRef.value : getterOrRef;
+  const getter = isArray(source)
+    ? () => source.map(getSourceValue)
+    : () => getSourceValue(source);
   let isFirstRun = true;
   let oldValue: unknown = null;
   let invalidateFn: CallableFunction | null = null;
@@ -190,34 +1168,149 @@ export function watch(getterOrRef: any, callback: any, options?: WatchOptions) {
 
   const specifier = `_watcher_${uniqueSpecifierId++}_`;
 
+  const runWatcher = () => {
+    const value = runInReactiveContext(target, specifier, () => {
+      const result = getter();
+      deep && traverse(result);
+      return result;
+    });
+    const shouldCallback = !isFirstRun || immediate || priority === Priority.Immediate;
+    isFirstRun = false;
+    const previousValue = oldValue;
+    oldValue = value;
+    if (!shouldCallback) {
+      return;
+    }
+    if (invalidateFn) {
+      invalidateFn();
+    }
+    once && unwatch();
+    callback(value, previousValue, onInvalidate);
+  };
+
   const taskRunner = () => {
-    pushReactiveContextStack({
-      target,
-      specifier,
+    // The watcher may have been stopped after the task was queued
+    if (!target.isInUse) {
+      return;
+    }
+    callWithErrorHandling(runWatcher, 'watcher');
+  };
+  __ENV__ === 'development' && setTaskLabel(taskRunner, specifier);
+
+  const target: Target = {
+    update(_specifier: string) {
+      scheduleWatcher(taskRunner, options);
+    },
+    isInUse: true,
+    isImmediate: isImmediateWatcher(options),
+  };
+  __ENV__ === 'development' && options && setDebuggerOptions(target, options);
+  taskRunner();
+
+  function unwatch() {
+    target.isInUse = false;
+    cleanupTarget(target);
+  }
+
+  getCurrentScope()?.addCleanup(unwatch);
+
+  return unwatch;
+}
+
+function getSourceValue(source: any) {
+  return source instanceof Ref || isComputed(source) ? source.value : source();
+}
+
+function isImmediateWatcher(options?: WatchEffectOptions) {
+  return !options?.flush && options?.priority === Priority.Immediate;
+}
+
+function scheduleWatcher(task: CallableFunction, options?: WatchEffectOptions) {
+  const { priority = Priority.Low, flush } = options || {};
+  if (flush === 'post') {
+    queuePostFlushTask(task);
+  } else {
+    queueTask(task, flush === 'pre' ? Priority.High : priority);
+  }
+}
+
+/**
+ * Read every nested property of a value, so that the current reactive context subscribes all of them.
+ */
+export function traverse(value: unknown, seen: Set<unknown> = new Set()) {
+  if (!isObject(value) || seen.has(value)) {
+    return;
+  }
+  seen.add(value);
+  if (value instanceof Ref || isComputed(value)) {
+    traverse(value.value, seen);
+  } else if (isArray(value)) {
+    value.forEach(item => traverse(item, seen));
+  } else if (value instanceof Map || value instanceof Set) {
+    value.forEach((item: unknown, key: unknown) => {
+      traverse(key, seen);
+      traverse(item, seen);
     });
-    const value = getter();
-    popReactiveContextStack();
+  } else {
+    for (const key in value) {
+      traverse(value[key], seen);
+    }
+  }
+}
+
+/**
+ * @public
+ */
+export type WatchEffect = (onInvalidate: OnInvalidateFn) => void;
+
+/**
+ * @public
+ * Run the effect immediately, and re-run it whenever any of the refs or computeds it read changes.
+ * The callback registered by onInvalidate() is called before the next run and when the effect is stopped.
+ */
+export function watchEffect(effect: WatchEffect, options?: WatchEffectOptions): UnwatchFn {
+  let invalidateFn: CallableFunction | null = null;
+  function onInvalidate(cb: CallableFunction) {
+    invalidateFn = cb;
+  }
+  function invalidate() {
     if (invalidateFn) {
       invalidateFn();
+      invalidateFn = null;
     }
-    (!isFirstRun || priority === Priority.Immediate) && callback(value, oldValue, onInvalidate);
-    oldValue = value;
-    isFirstRun = false;
+  }
+
+  const specifier = `_watch_effect_${uniqueSpecifierId++}_`;
+
+  const taskRunner = () => {
+    // The effect may have been stopped after the task was queued
+    if (!target.isInUse) {
+      return;
+    }
+    callWithErrorHandling(() => {
+      invalidate();
+      runInReactiveContext(target, specifier, () => effect(onInvalidate));
+    }, 'watchEffect');
   };
+  __ENV__ === 'development' && setTaskLabel(taskRunner, specifier);
 
   const target: Target = {
     update(_specifier: string) {
-      queueTask(taskRunner, priority);
+      scheduleWatcher(taskRunner, options);
     },
     isInUse: true,
+    isImmediate: isImmediateWatcher(options),
   };
+  __ENV__ === 'development' && options && setDebuggerOptions(target, options);
   taskRunner();
 
   function unwatch() {
     target.isInUse = false;
+    cleanupTarget(target);
+    invalidate();
   }
 
-  currentInstance?.registerCleanup(unwatch);
+  getCurrentScope()?.addCleanup(unwatch);
 
   return unwatch;
 }
@@ -0,0 +1,149 @@
+import { expect } from '@esm-bundle/chai';
+import { fake } from 'sinon';
+
+import { html } from './html.js';
+import { computed, ref, watch } from './reactive.js';
+import { isReactive, reactive, toRaw } from './reactiveProxy.js';
+import { nextTick } from './scheduler.js';
+
+describe('Reactive proxy', () => {
+  it('reactive(), isReactive() and toRaw()', () => {
+    const raw = { foo: 1, nested: { bar: 2 } };
+    const state = reactive(raw);
+
+    expect(state).to.not.equal(raw);
+    expect(isReactive(state)).to.equal(true);
+    expect(isReactive(raw)).to.equal(false);
+    expect(isReactive(state.nested)).to.equal(true);
+    expect(toRaw(state)).to.equal(raw);
+    expect(toRaw(state.nested)).to.equal(raw.nested);
+    // The same raw object always returns the same proxy
+    expect(reactive(raw)).to.equal(state);
+    expect(reactive(state)).to.equal(state);
+  });
+
+  it('class instances are not made reactive', () => {
+    const template = html`<div></div>`;
+    const state = reactive({ template, date: new Date() });
+
+    expect(isReactive(state.template)).to.equal(false);
+    expect(state.template).to.equal(template);
+    expect(isReactive(state.date)).to.equal(false);
+  });
+
+  it('watchers only rerun when the properties they read change', async () => {
+    const state = reactive({ user: { name: 'foo', age: 1 }, other: 0 });
+
+    const cb = fake();
+    watch(() => state.user.name, cb);
+
+    state.other++;
+    state.user.age++;
+    await nextTick();
+    expect(cb.callCount).to.equal(0);
+
+    state.user.name = 'bar';
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal('bar');
+    expect(cb.firstCall.args[1]).to.equal('foo');
+
+    // Replacing the nested object triggers the watcher as well
+    state.user = { name: 'baz', age: 2 };
+    await nextTick();
+    expect(cb.callCount).to.equal(2);
+    expect(cb.secondCall.args[0]).to.equal('baz');
+  });
+
+  it('adding and deleting properties notifies the getters enumerating the object', async () => {
+    const state = reactive<Record<string, number>>({ a: 1 });
+
+    const cb = fake();
+    watch(() => Object.keys(state).join(','), cb);
+
+    state.b = 2;
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal('a,b');
+
+    delete state.a;
+    await nextTick();
+    expect(cb.callCount).to.equal(2);
+    expect(cb.secondCall.args[0]).to.equal('b');
+
+    // Modifying an existing property doesn't change the keys
+    state.b = 3;
+    await nextTick();
+    expect(cb.callCount).to.equal(2);
+  });
+
+  it('array mutations', async () => {
+    const list = reactive([1, 2, 3]);
+    const sum = computed(() => list.reduce((acc, item) => acc + item, 0));
+
+    expect(sum.value).to.equal(6);
+    list.push(4);
+    expect(sum.value).to.equal(10);
+    list.splice(0, 2);
+    expect(sum.value).to.equal(7);
+    list[0] = 10;
+    expect(sum.value).to.equal(14);
+    list.length = 0;
+    expect(sum.value).to.equal(0);
+  });
+
+  it('identity sensitive array methods work with both raw and reactive values', () => {
+    const item = { id: 1 };
+    const list = reactive([item]);
+
+    expect(list.includes(item)).to.equal(true);
+    expect(list.indexOf(item)).to.equal(0);
+    expect(list.includes(list[0])).to.equal(true);
+    expect(list.lastIndexOf(list[0])).to.equal(0);
+  });
+
+  it('a watcher pushing items to an array should not trigger itself', async () => {
+    const source = ref(0);
+    const list = reactive<number[]>([]);
+
+    const cb = fake();
+    watch(() => {
+      list.push(source.value);
+      return source.value;
+    }, cb);
+
+    source.value = 1;
+    await nextTick();
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(toRaw(list)).to.eql([0, 1]);
+  });
+
+  it('mutating a ref holding an object notifies its getters', async () => {
+    const items = ref<number[]>([]);
+    const template = html`<p>${() => items.value.join(',')}</p>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+
+    items.value.push(1);
+    items.value.push(2);
+    await nextTick();
+    expect(container.querySelector('p')!.textContent).to.equal('1,2');
+
+    items.value[0] = 3;
+    await nextTick();
+    expect(container.querySelector('p')!.textContent).to.equal('3,2');
+  });
+
+  it('rendering a reactive array of templates', async () => {
+    const list = ref([html('a')`<li>a</li>`]);
+    const template = html`<ul>${() => list.value}</ul>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+    expect(container.querySelectorAll('li').length).to.equal(1);
+
+    list.value.push(html('b')`<li>b</li>`);
+    await nextTick();
+    expect(container.querySelector('ul')!.textContent).to.equal('ab');
+  });
+});
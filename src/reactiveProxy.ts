@@ -0,0 +1,430 @@
+import { collectionHandlers, isCollection, isMap } from './collectionHandlers.js';
+import { Deps, batch, isTracking, setDepsSource, track, trigger, untrack } from './reactive.js';
+import { isSignalTracking } from './signals.js';
+import { error, hasOwn, isArray, isIntegerKey, isObject, isPlainObject } from './utils.js';
+
+/**
+ * For the relationship between a reactive object and the templates/watchers reading it:
+ * - every property of the raw object owns its own deps, so a getter only subscribes the keys it reads
+ * - the ITERATE_KEY deps collect the getters that enumerate the object, e.g. Object.keys(), for...in
+ * - arrays use the 'length' deps instead of the ITERATE_KEY deps
+ */
+export const ITERATE_KEY = Symbol('iterate');
+// Map.prototype.keys() only cares about adding/deleting keys, not about the values of the keys
+export const MAP_KEY_ITERATE_KEY = Symbol('map key iterate');
+
+export enum TriggerType {
+  Set = 'set',
+  Add = 'add',
+  Delete = 'delete',
+  Clear = 'clear',
+}
+
+type KeyToDepsMap = Map<unknown, Deps>;
+const targetToDepsMap = new WeakMap<object, KeyToDepsMap>();
+const rawToReactiveMap = new WeakMap<object, any>();
+const reactiveToReadonlyMap = new WeakMap<object, any>();
+
+const builtInSymbols = new Set(
+  Object.getOwnPropertyNames(Symbol)
+    .map(key => (Symbol as any)[key])
+    .filter(value => typeof value === 'symbol'),
+);
+
+export function trackKey(target: object, key: unknown) {
+  if (!isTracking() && !isSignalTracking()) {
+    return;
+  }
+  let keyToDepsMap = targetToDepsMap.get(target);
+  if (!keyToDepsMap) {
+    keyToDepsMap = new Map();
+    targetToDepsMap.set(target, keyToDepsMap);
+  }
+  let deps = keyToDepsMap.get(key);
+  if (!deps) {
+    deps = new Map();
+    keyToDepsMap.set(key, deps);
+    __ENV__ === 'development' && setDepsSource(deps, target, key);
+  }
+  track(deps);
+}
+
+export function triggerKey(target: object, type: TriggerType, key?: unknown, newValue?: unknown) {
+  const keyToDepsMap = targetToDepsMap.get(target);
+  if (!keyToDepsMap) {
+    return;
+  }
+  const depsList: (Deps | undefined)[] = [];
+  if (type === TriggerType.Clear) {
+    // Clearing a collection affects every key of it
+    depsList.push(...keyToDepsMap.values());
+  } else if (key === 'length' && isArray(target)) {
+    // Shrinking an array affects all the indexes beyond the new length
+    const newLength = Number(newValue);
+    keyToDepsMap.forEach((deps, k) => {
+      if (k === 'length' || (isIntegerKey(k) && Number(k) >= newLength)) {
+        depsList.push(deps);
+      }
+    });
+  } else {
+    depsList.push(keyToDepsMap.get(key));
+    switch (type) {
+      case TriggerType.Add:
+        depsList.push(keyToDepsMap.get(isArray(target) ? 'length' : ITERATE_KEY));
+        isMap(target) && depsList.push(keyToDepsMap.get(MAP_KEY_ITERATE_KEY));
+        break;
+      case TriggerType.Delete:
+        !isArray(target) && depsList.push(keyToDepsMap.get(ITERATE_KEY));
+        isMap(target) && depsList.push(keyToDepsMap.get(MAP_KEY_ITERATE_KEY));
+        break;
+      case TriggerType.Set:
+        // The values of a Map are part of its iteration
+        isMap(target) && depsList.push(keyToDepsMap.get(ITERATE_KEY));
+        break;
+    }
+  }
+  trigger(...depsList.filter((deps): deps is Deps => !!deps));
+}
+
+/**
+ * A change made to an array in place, described as the splice producing it, the inserted items are raw.
+ */
+export interface ArraySplice {
+  index: number;
+  deleteCount: number;
+  items: unknown[];
+}
+
+// The changes which are not a splice, e.g. sort(), are reported as null
+type ArrayObserver = (splice: ArraySplice | null) => void;
+const arrayObservers = new WeakMap<unknown[], Set<ArrayObserver>>();
+// The arrays being changed by a mutation method, which reports the change as a whole rather than every assignment
+const mutatingArrays = new Set<unknown[]>();
+
+/**
+ * Observe the changes made to a raw array through its reactive proxy, the observer is called before
+ * the subscribers of the array are updated. Returns the function to stop observing.
+ */
+export function observeArray(array: unknown[], observer: ArrayObserver) {
+  let observers = arrayObservers.get(array);
+  if (!observers) {
+    observers = new Set();
+    arrayObservers.set(array, observers);
+  }
+  observers.add(observer);
+  return () => {
+    observers.delete(observer);
+  };
+}
+
+function notifyArrayObservers(array: unknown[], splice: ArraySplice | null) {
+  if (splice && splice.deleteCount === 0 && splice.items.length === 0) {
+    return;
+  }
+  arrayObservers.get(array)?.forEach(observer => observer(splice));
+}
+
+function getMethodSplice(method: string, length: number, args: unknown[]): ArraySplice | null {
+  switch (method) {
+    case 'push':
+      return { index: length, deleteCount: 0, items: args.map(toRaw) };
+    case 'pop':
+      return { index: Math.max(length - 1, 0), deleteCount: length > 0 ? 1 : 0, items: [] };
+    case 'shift':
+      return { index: 0, deleteCount: length > 0 ? 1 : 0, items: [] };
+    case 'unshift':
+      return { index: 0, deleteCount: 0, items: args.map(toRaw) };
+    case 'splice': {
+      const start = Math.trunc(Number(args[0])) || 0;
+      const index = start < 0 ? Math.max(length + start, 0) : Math.min(start, length);
+      const deleteCount = args.length === 0
+        ? 0
+        : args.length === 1
+        ? length - index
+        : Math.min(Math.max(Math.trunc(Number(args[1])) || 0, 0), length - index);
+      return { index, deleteCount, items: args.slice(2).map(toRaw) };
+    }
+  }
+  return null;
+}
+
+function getAssignmentSplice(array: unknown[], key: string, oldLength: number, value: unknown): ArraySplice | null {
+  if (key === 'length') {
+    const length = Number(value);
+    // Growing an array leaves holes behind
+    return length <= oldLength ? { index: length, deleteCount: oldLength - length, items: [] } : null;
+  }
+  const index = Number(key);
+  if (index > oldLength) {
+    return null;
+  }
+  return { index, deleteCount: index < oldLength ? 1 : 0, items: [array[index]] };
+}
+
+const arrayInstrumentations: Record<string, CallableFunction> = {};
+
+// These methods compare identities, the argument could be either a raw value or a reactive one
+(['includes', 'indexOf', 'lastIndexOf'] as const).forEach(method => {
+  arrayInstrumentations[method] = function(this: unknown[], ...args: unknown[]) {
+    const arr = toRaw(this);
+    for (let i = 0; i < arr.length; i++) {
+      trackKey(arr, String(i));
+    }
+    trackKey(arr, 'length');
+    const search = Array.prototype[method] as (...args: unknown[]) => unknown;
+    const result = search.apply(arr, args);
+    if (result === -1 || result === false) {
+      return search.apply(arr, args.map(toRaw));
+    }
+    return result;
+  };
+});
+
+// These methods read the length implicitly, we must not subscribe the length while mutating the array,
+// or a watcher pushing items to an array would be triggered by itself.
+// The subscribers are only updated once the method returns, so that they see the change as a whole.
+(['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse'] as const).forEach(method => {
+  arrayInstrumentations[method] = function(this: unknown[], ...args: unknown[]) {
+    const arr = toRaw(this);
+    const apply = () => (Array.prototype[method] as (...args: unknown[]) => unknown).apply(this, args);
+    notifyArrayObservers(arr, getMethodSplice(method, arr.length, args));
+    mutatingArrays.add(arr);
+    try {
+      return batch(() => method === 'sort' || method === 'reverse' ? apply() : untrack(apply));
+    } finally {
+      mutatingArrays.delete(arr);
+    }
+  };
+});
+
+const mutableHandlers: ProxyHandler<object> = {
+  get(target, key, receiver) {
+    if (key === '__isReactive') {
+      return true;
+    }
+    if (key === '__raw') {
+      return target;
+    }
+    if (key === '__isReadonly') {
+      return false;
+    }
+
+    if (isArray(target) && hasOwn(arrayInstrumentations, key)) {
+      return Reflect.get(arrayInstrumentations, key, receiver);
+    }
+
+    const result = Reflect.get(target, key, receiver);
+    if (typeof key === 'symbol' && builtInSymbols.has(key)) {
+      return result;
+    }
+
+    trackKey(target, key);
+    // Nested objects are made reactive lazily when they are accessed
+    return isObject(result) ? reactive(result) : result;
+  },
+
+  set(target, key, value, receiver) {
+    const oldValue = (target as any)[key];
+    const oldLength = isArray(target) ? target.length : 0;
+    const hadKey = isArray(target) && isIntegerKey(key) ? Number(key) < oldLength : hasOwn(target, key);
+    // Always store the raw value, so that the raw object doesn't contain any proxies
+    const result = Reflect.set(target, key, toRaw(value), receiver);
+    // Ignore the assignments that happen on the prototype chain
+    if (target !== toRaw(receiver)) {
+      return result;
+    }
+    const isChanged = !hadKey || !Object.is(toRaw(value), oldValue);
+    if (
+      isChanged && isArray(target) && (key === 'length' || isIntegerKey(key)) && !mutatingArrays.has(target) &&
+      arrayObservers.has(target)
+    ) {
+      notifyArrayObservers(target, getAssignmentSplice(target, key as string, oldLength, value));
+    }
+    if (!hadKey) {
+      triggerKey(target, TriggerType.Add, key, value);
+    } else if (!Object.is(toRaw(value), oldValue)) {
+      triggerKey(target, TriggerType.Set, key, value);
+    }
+    return result;
+  },
+
+  deleteProperty(target, key) {
+    const hadKey = hasOwn(target, key);
+    const result = Reflect.deleteProperty(target, key);
+    if (result && hadKey) {
+      // Deleting an index leaves a hole behind
+      isArray(target) && isIntegerKey(key) && !mutatingArrays.has(target) && notifyArrayObservers(target, null);
+      triggerKey(target, TriggerType.Delete, key);
+    }
+    return result;
+  },
+
+  has(target, key) {
+    const result = Reflect.has(target, key);
+    if (typeof key !== 'symbol' || !builtInSymbols.has(key)) {
+      trackKey(target, key);
+    }
+    return result;
+  },
+
+  ownKeys(target) {
+    trackKey(target, isArray(target) ? 'length' : ITERATE_KEY);
+    return Reflect.ownKeys(target);
+  },
+};
+
+/**
+ * Only plain objects, arrays and the built-in collections can be made reactive, class instances
+ * (e.g. Template, DOM nodes) usually rely on their private fields which are not accessible through a proxy.
+ */
+function canBeReactive(value: unknown): value is object {
+  return (isPlainObject(value) || isArray(value) || isCollection(value)) && Object.isExtensible(value);
+}
+
+/**
+ * @public
+ * Returns a reactive proxy of the given object, reading a property of it inside a template getter,
+ * a computed or a watcher subscribes that property, writing a property notifies the subscribers of that property.
+ * Nested objects are reactive as well.
+ * For Map, Set, WeakMap and WeakSet, every key is tracked separately, iterating or reading the size of
+ * a collection subscribes the collection as a whole.
+ */
+export function reactive<T extends object>(target: T): T {
+  if (isReactive(target) || !canBeReactive(target)) {
+    return target;
+  }
+  const existing = rawToReactiveMap.get(target);
+  if (existing) {
+    return existing;
+  }
+  const proxy = new Proxy(target, isCollection(target) ? collectionHandlers : mutableHandlers);
+  rawToReactiveMap.set(target, proxy);
+  return proxy as T;
+}
+
+/**
+ * @public
+ */
+export function isReactive(value: unknown): boolean {
+  return isObject(value) && !!value.__isReactive;
+}
+
+/**
+ * @public
+ * Returns the raw object of a reactive proxy, reading from and writing to the raw object
+ * will neither be tracked nor trigger any updates.
+ */
+export function toRaw<T>(observed: T): T {
+  const raw = isObject(observed) && (observed as any).__raw;
+  return raw ? toRaw(raw) : observed;
+}
+
+export function toReactive<T>(value: T): T {
+  return isObject(value) ? reactive(value) : value;
+}
+
+function readonlyError(action: string, key: unknown, target: object) {
+  __ENV__ === 'development' &&
+    error(`Failed to ${action} the key "${String(key)}", the target is readonly, target is:`, toRaw(target));
+}
+
+function readonlyIterator(iterator: Iterator<unknown>, isPair: boolean) {
+  return {
+    next() {
+      const { value, done } = iterator.next();
+      if (done) {
+        return { value, done };
+      }
+      return {
+        value: isPair ? (value as unknown[]).map(toReadonly) : toReadonly(value),
+        done,
+      };
+    },
+    [Symbol.iterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * The mutation methods of a readonly collection are rejected, the values read from it are readonly as well.
+ */
+function getReadonlyCollectionMember(target: any, key: PropertyKey) {
+  switch (key) {
+    case 'add':
+    case 'set':
+    case 'delete':
+    case 'clear':
+      return function(this: unknown, ...args: unknown[]) {
+        readonlyError(key, args[0], target);
+        return key === 'delete' ? false : key === 'clear' ? undefined : this;
+      };
+    case 'get':
+      return (k: unknown) => toReadonly(target.get(k));
+    case 'forEach':
+      return (callback: (...args: unknown[]) => unknown, thisArg?: unknown) => {
+        target.forEach((value: unknown, k: unknown) => callback.call(thisArg, toReadonly(value), toReadonly(k)));
+      };
+    case 'keys':
+    case 'values':
+      return () => readonlyIterator(target[key](), false);
+    case 'entries':
+      return () => readonlyIterator(target.entries(), true);
+    case Symbol.iterator:
+      return () => readonlyIterator(target[Symbol.iterator](), isMap(toRaw(target)));
+  }
+  return Reflect.get(target, key, target);
+}
+
+/**
+ * The target of a readonly proxy is a reactive proxy, so reading through a readonly proxy is tracked as usual.
+ */
+const readonlyHandlers: ProxyHandler<any> = {
+  get(target, key) {
+    if (key === '__isReadonly') {
+      return true;
+    }
+    if (key === '__raw') {
+      return target;
+    }
+    if (isCollection(toRaw(target))) {
+      return getReadonlyCollectionMember(target, key);
+    }
+    return toReadonly(Reflect.get(target, key, target));
+  },
+
+  set(target, key) {
+    readonlyError('set', key, target);
+    return true;
+  },
+
+  deleteProperty(target, key) {
+    readonlyError('delete', key, target);
+    return true;
+  },
+};
+
+export function readonlyProxy<T extends object>(target: T): T {
+  if (isReadonlyProxy(target)) {
+    return target;
+  }
+  const observed = reactive(target);
+  if (!isReactive(observed)) {
+    return target;
+  }
+  const existing = reactiveToReadonlyMap.get(observed);
+  if (existing) {
+    return existing;
+  }
+  const proxy = new Proxy(observed, readonlyHandlers);
+  reactiveToReadonlyMap.set(observed, proxy);
+  return proxy;
+}
+
+export function isReadonlyProxy(value: unknown): boolean {
+  return isObject(value) && !!value.__isReadonly;
+}
+
+export function toReadonly<T>(value: T): T {
+  return isObject(value) ? readonlyProxy(value) : value;
+}
@@ -3,7 +3,8 @@ import { fake } from 'sinon';
 
 import { domRef } from './domRef.js';
 import { html } from './html.js';
-import { computed, ref, watch } from './reactive.js';
+import { computed, readonly, ref, watch } from './reactive.js';
+import { reactive, toRaw } from './reactiveProxy.js';
 import { nextTick } from './scheduler.js';
 
 describe('Reactive rendering', () => {
@@ -284,4 +285,85 @@ describe('Reactive rendering', () => {
     await nextTick();
     expect(container.querySelector('div')!.textContent).to.equal('6');
   });
+
+  it('an unmounted template unsubscribes the refs it reads', async () => {
+    const counter = ref(0);
+    const doubleGetter = fake(() => counter.value * 2);
+    const double = computed(doubleGetter);
+    const getter = fake(() => counter.value);
+    const template = html`<div>${getter}</div><p>${() => double.value}</p>`;
+
+    const container = document.createElement('div');
+    template.mountTo(container);
+    expect(getter.callCount).to.equal(1);
+    expect(doubleGetter.callCount).to.equal(1);
+
+    counter.value = 1;
+    template.unmount();
+    // the update queued before unmounting is skipped
+    await nextTick();
+    expect(getter.callCount).to.equal(1);
+    expect(doubleGetter.callCount).to.equal(1);
+    counter.value = 2;
+    await nextTick();
+    expect(getter.callCount).to.equal(1);
+    expect(doubleGetter.callCount).to.equal(1);
+
+    template.mountTo(container);
+    expect(container.querySelector('div')!.textContent).to.equal('2');
+    expect(container.querySelector('p')!.textContent).to.equal('4');
+    counter.value = 3;
+    await nextTick();
+    expect(container.querySelector('div')!.textContent).to.equal('3');
+    expect(container.querySelector('p')!.textContent).to.equal('6');
+  });
+
+  it('a template reports its dependencies', async () => {
+    const counter = ref(0);
+    const state = reactive({ visible: true });
+    const onTrigger = fake();
+    const child = html`<span>${() => counter.value}</span>`;
+    const template = html`<div>${() => (state.visible ? child : '')}</div>`;
+    template.setDebuggerOptions({ onTrigger });
+
+    const container = document.createElement('div');
+    template.mountTo(container);
+    const dependencies = template.getDependencies();
+    expect(dependencies.length).to.equal(1);
+    expect(dependencies[0]).to.include({ source: toRaw(state), key: 'visible' });
+    expect(dependencies[0].specifier).to.match(/^\$\$--/);
+    expect(child.getDependencies().map(dependency => dependency.source)).to.eql([counter]);
+
+    // the child template inherits the hooks of its parent
+    counter.value = 1;
+    expect(onTrigger.callCount).to.equal(1);
+    expect(onTrigger.firstCall.args[0]).to.include({ target: child, source: counter });
+    await nextTick();
+  });
+
+  it('refs and computeds are interpolated directly', async () => {
+    const text = ref('foo');
+    const disabled = ref(true);
+    const length = computed(() => text.value.length);
+    const template = html`<div>${text} ${length} ${readonly(text)}</div>`;
+    const container = document.createElement('div');
+    html`${template}<input title=${text} data-len="len: ${length}" :value=${text} ?hidden=${disabled}>`
+      .mountTo(container);
+    const div = container.querySelector('div')!;
+    const input = container.querySelector('input')!;
+    expect(div.textContent).to.equal('foo 3 foo');
+    expect(input.getAttribute('title')).to.equal('foo');
+    expect(input.getAttribute('data-len')).to.equal('len: 3');
+    expect(input.value).to.equal('foo');
+    expect(input.hidden).to.equal(true);
+
+    text.value = 'hello';
+    disabled.value = false;
+    await nextTick();
+    expect(div.textContent).to.equal('hello 5 hello');
+    expect(input.getAttribute('title')).to.equal('hello');
+    expect(input.getAttribute('data-len')).to.equal('len: 5');
+    expect(input.value).to.equal('hello');
+    expect(input.hidden).to.equal(false);
+  });
 });
@@ -0,0 +1,97 @@
+import { expect } from '@esm-bundle/chai';
+import { fake } from 'sinon';
+
+import { effectScope } from './effectScope.js';
+import { ref } from './reactive.js';
+import { ResourceFetcherInfo, resource } from './resource.js';
+import { nextTick } from './scheduler.js';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('resource', () => {
+  it('fetches with the value of the source and exposes the loading state', async () => {
+    const id = ref(1);
+    const request = deferred<string>();
+    const fetcher = fake((_id: number, _info: ResourceFetcherInfo) => request.promise);
+    const source = fake(() => id.value);
+    const user = resource(source, fetcher);
+
+    expect(source.callCount).to.equal(1);
+    expect(fetcher.callCount).to.equal(1);
+    expect(fetcher.firstCall.args[0]).to.equal(1);
+    expect(fetcher.firstCall.args[1].signal).to.be.instanceOf(AbortSignal);
+    expect(user.loading.value).to.equal(true);
+    expect(user.value.value).to.equal(undefined);
+
+    request.resolve('foo');
+    await request.promise;
+    await nextTick();
+    expect(user.loading.value).to.equal(false);
+    expect(user.value.value).to.equal('foo');
+    expect(user.error.value).to.equal(null);
+  });
+
+  it('re-fetches when the source changes and aborts the previous run', async () => {
+    const id = ref(1);
+    const requests = [deferred<string>(), deferred<string>()];
+    let callCount = 0;
+    const fetcher = fake((_id: number, _info: ResourceFetcherInfo) => requests[callCount++].promise);
+    const user = resource(() => id.value, fetcher);
+
+    id.value = 2;
+    await nextTick();
+    expect(fetcher.callCount).to.equal(2);
+    expect(fetcher.secondCall.args[0]).to.equal(2);
+    expect(fetcher.firstCall.args[1].signal.aborted).to.equal(true);
+
+    // The outdated run settles after the latest one, it must not override the value
+    requests[1].resolve('bar');
+    await requests[1].promise;
+    requests[0].resolve('foo');
+    await requests[0].promise;
+    await nextTick();
+    expect(user.value.value).to.equal('bar');
+    expect(user.loading.value).to.equal(false);
+  });
+
+  it('exposes the error and supports refetch()', async () => {
+    let shouldFail = true;
+    const user = resource(() => 1, async () => {
+      if (shouldFail) {
+        throw new Error('oops');
+      }
+      return 'foo';
+    });
+
+    await nextTick();
+    await nextTick();
+    expect((user.error.value as Error).message).to.equal('oops');
+    expect(user.loading.value).to.equal(false);
+
+    shouldFail = false;
+    await user.refetch();
+    expect(user.error.value).to.equal(null);
+    expect(user.value.value).to.equal('foo');
+  });
+
+  it('is disposed with the owning scope', async () => {
+    const id = ref(1);
+    const fetcher = fake((_id: number, _info: ResourceFetcherInfo) => new Promise(() => {}));
+    const scope = effectScope();
+    scope.run(() => resource(() => id.value, fetcher));
+
+    scope.stop();
+    expect(fetcher.firstCall.args[1].signal.aborted).to.equal(true);
+    id.value = 2;
+    await nextTick();
+    expect(fetcher.callCount).to.equal(1);
+  });
+});
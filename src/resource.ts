@@ -0,0 +1,81 @@
+import { getCurrentScope } from './effectScope.js';
+import { Ref, ref, shallowRef, untrack, watch } from './reactive.js';
+
+/**
+ * @public
+ */
+export interface ResourceFetcherInfo {
+  /**
+   * Aborted when the resource is re-fetched before the current run settles, or when the resource is disposed.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * @public
+ */
+export type ResourceFetcher<S, T> = (source: S, info: ResourceFetcherInfo) => T | Promise<T>;
+
+/**
+ * @public
+ */
+export interface Resource<T> {
+  value: Ref<T | undefined>;
+  loading: Ref<boolean>;
+  error: Ref<unknown>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * @public
+ * Derive state from a Promise, the fetcher is called with the value of the source getter,
+ * and it is called again whenever the refs the source getter reads change.
+ * Only the latest run is able to update the resource, the previous run is aborted through the AbortSignal.
+ */
+export function resource<S, T>(source: () => S, fetcher: ResourceFetcher<S, T>): Resource<T> {
+  // The fetched data is usually large and immutable, there is no need to make it deeply reactive
+  const value = shallowRef<T | undefined>(undefined);
+  const loading = ref(false);
+  const error = shallowRef<unknown>(null);
+
+  let controller: AbortController | null = null;
+
+  async function run(sourceValue: S) {
+    controller?.abort();
+    const currentController = controller = new AbortController();
+    const { signal } = currentController;
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await fetcher(sourceValue, { signal });
+      // A newer run has started, the result is outdated
+      if (signal.aborted) {
+        return;
+      }
+      value.value = result;
+    } catch (e) {
+      if (signal.aborted) {
+        return;
+      }
+      error.value = e;
+    } finally {
+      if (!signal.aborted) {
+        loading.value = false;
+      }
+    }
+  }
+
+  // The first run is made by the watcher, so that the source getter is evaluated only once
+  watch(source, sourceValue => run(sourceValue), { immediate: true });
+
+  getCurrentScope()?.addCleanup(() => {
+    controller?.abort();
+  });
+
+  return {
+    value,
+    loading,
+    error,
+    refetch: () => run(untrack(source)),
+  };
+}
@@ -1,5 +1,5 @@
 import { expect } from '@esm-bundle/chai';
-import { fake } from 'sinon';
+import { fake, stub } from 'sinon';
 import { Priority, nextTick, queueTask } from './scheduler.js';
 
 describe('Scheduler', () => {
@@ -77,4 +77,40 @@ describe('Scheduler', () => {
 
     expect(result).to.deep.equal(['C', 'B', 'D', 'A']);
   });
+
+  it('a task queueing itself again is dropped after too many runs within one flush', async () => {
+    const consoleError = stub(console, 'error');
+    const other = fake();
+    const taskA = fake(function loopingA() {
+      queueTask(taskB);
+    });
+    const taskB = fake(function loopingB() {
+      queueTask(taskA, Priority.Low);
+    });
+    queueTask(taskA);
+    queueTask(other, Priority.Low);
+    await nextTick();
+    consoleError.restore();
+
+    expect(taskA.callCount).to.equal(100);
+    expect(other.callCount).to.equal(1);
+    expect(consoleError.callCount).to.equal(1);
+    expect(consoleError.firstCall.args[0]).to.contain('Maximum updates exceeded');
+    expect(consoleError.firstCall.args[0]).to.contain('loopingA -> loopingB');
+
+    // The count is reset for the next flush
+    const task = fake();
+    queueTask(task);
+    await nextTick();
+    expect(task.callCount).to.equal(1);
+  });
+
+  it('an immediate task recursing into itself is stopped', () => {
+    const consoleError = stub(console, 'error');
+    const task = fake((): void => queueTask(task, Priority.Immediate));
+    queueTask(task, Priority.Immediate);
+    consoleError.restore();
+    expect(task.callCount).to.equal(100);
+    expect(consoleError.callCount).to.equal(1);
+  });
 });
@@ -1,3 +1,6 @@
+import { callWithErrorHandling } from './errorHandling.js';
+import { error } from './utils.js';
+
 const p = Promise.resolve();
 
 /**
@@ -16,9 +19,77 @@ const tasks = {
   [Priority.Middle]: new Set<CallableFunction>(),
   [Priority.Low]: new Set<CallableFunction>(),
 };
+// The post flush tasks run after all the tasks of every priority, including the ones queued while flushing
+const postFlushTasks = new Set<CallableFunction>();
+// The pre tasks run before the next task, e.g. re-validating the stale computeds once for all the writes made
+// since then, they only decide which tasks to queue so they don't count as updates
+const preTasks = new Set<CallableFunction>();
 
 let currentPromise: Promise<void> | null = null;
 
+/**
+ * A task that keeps being queued again, e.g. a watcher writing a ref it reads, would never let the flush end,
+ * it is dropped once it has run this many times within one flush, or recursed this deep for an immediate task.
+ */
+const MAX_RUNS_PER_FLUSH = 100;
+const runCounts = new Map<CallableFunction, number>();
+const immediateDepths = new Map<CallableFunction, number>();
+
+// The names of the tasks used by the dev errors, e.g. the specifiers of the watchers and template parts
+const taskLabels = new WeakMap<CallableFunction, string>();
+
+export function setTaskLabel(task: CallableFunction, label: string) {
+  taskLabels.set(task, label);
+}
+
+function getTaskLabel(task: CallableFunction) {
+  return taskLabels.get(task) || task.name || 'anonymous task';
+}
+
+/**
+ * The ref, computed or reactive object key whose write queued a task.
+ */
+export interface TaskTrigger {
+  label: string;
+  source: unknown;
+}
+
+// Dev only, the trigger of the task being queued, and the last trigger of every queued task
+let currentTrigger: TaskTrigger | null = null;
+const taskTriggers = new WeakMap<CallableFunction, TaskTrigger>();
+
+/**
+ * Run the function, the tasks it queues are reported as queued by the given trigger in the dev errors.
+ */
+export function runWithTaskTrigger<T>(trigger: TaskTrigger, fn: () => T): T {
+  const previousTrigger = currentTrigger;
+  currentTrigger = trigger;
+  try {
+    return fn();
+  } finally {
+    currentTrigger = previousTrigger;
+  }
+}
+
+function recordTaskTrigger(task: CallableFunction) {
+  currentTrigger && taskTriggers.set(task, currentTrigger);
+}
+
+function describeTask(task: CallableFunction) {
+  const trigger = taskTriggers.get(task);
+  return trigger ? `${getTaskLabel(task)} (queued by a write of ${trigger.label})` : getTaskLabel(task);
+}
+
+function reportInfiniteLoop(tasksInLoop: CallableFunction[]) {
+  error(
+    `Maximum updates exceeded, the following tasks keep queueing each other: ${
+      tasksInLoop.map(describeTask).join(' -> ')
+    }, they are probably writing the refs they read, tasks and sources are:`,
+    tasksInLoop,
+    tasksInLoop.map(task => taskTriggers.get(task)?.source),
+  );
+}
+
 /**
  * @public
  */
@@ -33,8 +104,9 @@ export function nextTick() {
  * @public
  */
 export function queueTask(task: CallableFunction, priority: Priority = Priority.Middle) {
+  __ENV__ === 'development' && recordTaskTrigger(task);
   if (priority === Priority.Immediate) {
-    task();
+    runImmediateTask(task);
     return;
   }
   const queue = tasks[priority];
@@ -42,18 +114,88 @@ export function queueTask(task: CallableFunction, priority: Priority = Priority.
   queue.delete(task);
   queue.add(task);
 
+  scheduleFlush();
+}
+
+export function queuePreTask(task: CallableFunction) {
+  preTasks.add(task);
+  scheduleFlush();
+}
+
+export function queuePostFlushTask(task: CallableFunction) {
+  __ENV__ === 'development' && recordTaskTrigger(task);
+  postFlushTasks.delete(task);
+  postFlushTasks.add(task);
+
+  scheduleFlush();
+}
+
+function scheduleFlush() {
   if (!currentPromise) {
     currentPromise = p.then(flushTasks);
   }
 }
 
+function hasPendingTasks() {
+  return preTasks.size > 0 || tasks[Priority.High].size > 0 || tasks[Priority.Middle].size > 0 ||
+    tasks[Priority.Low].size > 0;
+}
+
+function runImmediateTask(task: CallableFunction) {
+  const depth = immediateDepths.get(task) || 0;
+  if (depth >= MAX_RUNS_PER_FLUSH) {
+    __ENV__ === 'development' && reportInfiniteLoop([task]);
+    return;
+  }
+  immediateDepths.set(task, depth + 1);
+  try {
+    callWithErrorHandling(() => task(), 'task');
+  } finally {
+    depth === 0 ? immediateDepths.delete(task) : immediateDepths.set(task, depth);
+  }
+}
+
+function runPreTasks() {
+  if (preTasks.size === 0) {
+    return;
+  }
+  const toBeRun = [...preTasks];
+  preTasks.clear();
+  toBeRun.forEach(task => callWithErrorHandling(() => task(), 'task'));
+}
+
+function runTask(task: CallableFunction) {
+  runPreTasks();
+  const count = (runCounts.get(task) || 0) + 1;
+  runCounts.set(task, count);
+  if (count > MAX_RUNS_PER_FLUSH) {
+    if (__ENV__ === 'development' && count === MAX_RUNS_PER_FLUSH + 1) {
+      // The tasks in the loop have run about as many times as the dropped one
+      reportInfiniteLoop([...runCounts].filter(([, c]) => c > MAX_RUNS_PER_FLUSH / 2).map(([t]) => t));
+    }
+    return;
+  }
+  // A failing task must neither prevent the other tasks from running nor leave the flush unfinished
+  callWithErrorHandling(() => task(), 'task');
+}
+
+function runTasks(queue: Set<CallableFunction>) {
+  queue.forEach(runTask);
+  queue.clear();
+}
+
 function flushTasks() {
-  tasks[Priority.High].forEach(task => task());
-  tasks[Priority.High].clear();
-  tasks[Priority.Middle].forEach(task => task());
-  tasks[Priority.Middle].clear();
-  tasks[Priority.Low].forEach(task => task());
-  tasks[Priority.Low].clear();
+  // A task may queue other tasks, keep flushing until all the queues are drained
+  while (hasPendingTasks() || postFlushTasks.size > 0) {
+    while (hasPendingTasks()) {
+      runPreTasks();
+      runTasks(tasks[Priority.High]);
+      runTasks(tasks[Priority.Middle]);
+      runTasks(tasks[Priority.Low]);
+    }
+    runTasks(postFlushTasks);
+  }
 
+  runCounts.clear();
   currentPromise = null;
 }
@@ -0,0 +1,92 @@
+import { expect } from '@esm-bundle/chai';
+import { fake } from 'sinon';
+import { Signal } from 'signal-polyfill';
+
+import { html } from './html.js';
+import { computed, ref, watch } from './reactive.js';
+import { reactive } from './reactiveProxy.js';
+import { nextTick } from './scheduler.js';
+import { toSignal } from './signals.js';
+
+// The watcher of the interop notifies the s-ray targets in a microtask
+async function flush() {
+  await Promise.resolve();
+  await nextTick();
+}
+
+describe('TC39 Signals interop', () => {
+  before(() => {
+    (globalThis as any).Signal = Signal;
+  });
+
+  after(() => {
+    delete (globalThis as any).Signal;
+  });
+
+  it('a template getter subscribes the standard signals it reads', async () => {
+    const state = new Signal.State(1);
+    const double = new Signal.Computed(() => state.get() * 2);
+    const template = html`<p>${() => state.get()}</p><span>${() => double.get()}</span>`;
+    const container = document.createElement('div');
+    template.mountTo(container);
+    expect(container.querySelector('p')!.textContent).to.equal('1');
+
+    state.set(2);
+    await flush();
+    expect(container.querySelector('p')!.textContent).to.equal('2');
+    expect(container.querySelector('span')!.textContent).to.equal('4');
+
+    // an unmounted template stops watching the signals
+    template.unmount();
+    state.set(3);
+    await flush();
+    expect(container.querySelector('p')).to.equal(null);
+  });
+
+  it('watchers and computeds consume the standard signals', async () => {
+    const state = new Signal.State('a');
+    const upper = computed(() => state.get().toUpperCase());
+    const cb = fake();
+    watch(upper, cb);
+
+    state.set('b');
+    await flush();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args.slice(0, 2)).to.eql(['B', 'A']);
+  });
+
+  it('the refs, computeds and reactive objects can be consumed by standard signals', async () => {
+    const count = ref(1);
+    const triple = computed(() => count.value * 3);
+    const user = reactive({ name: 'foo' });
+    const summary = new Signal.Computed(() => `${count.value}-${triple.value}-${user.name}`);
+    expect(summary.get()).to.equal('1-3-foo');
+
+    const notify = fake();
+    const watcher = new Signal.subtle.Watcher(notify);
+    watcher.watch(summary);
+
+    count.value = 2;
+    expect(notify.callCount).to.equal(1);
+    expect(summary.get()).to.equal('2-6-foo');
+    watcher.watch();
+
+    user.name = 'bar';
+    expect(notify.callCount).to.equal(2);
+    expect(summary.get()).to.equal('2-6-bar');
+    watcher.unwatch(summary);
+  });
+
+  it('toSignal() exposes a ref as a standard signal', () => {
+    const count = ref(1);
+    const signal = toSignal(count);
+    const notify = fake();
+    const watcher = new Signal.subtle.Watcher(notify);
+    watcher.watch(signal as Signal.Computed<number>);
+    expect(signal.get()).to.equal(1);
+
+    count.value = 2;
+    expect(notify.callCount).to.equal(1);
+    expect(signal.get()).to.equal(2);
+  });
+});
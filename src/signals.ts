@@ -0,0 +1,175 @@
+import { Deps, Specifier, Target, trigger } from './reactive.js';
+import { error } from './utils.js';
+
+/**
+ * The interop with the TC39 Signals proposal, the implementation is looked up from globalThis.Signal,
+ * e.g. installed by a polyfill, nothing happens if there is none.
+ * - the getters of the templates, computeds and watchers run inside a Signal.Computed, so that reading
+ *   a standard signal subscribes the getter
+ * - the refs, computeds and reactive object keys read inside a standard Signal.Computed are backed by
+ *   a Signal.State, so that they can be consumed by other libraries and watched by a Signal.subtle.Watcher
+ */
+
+/**
+ * @public
+ * The part of a standard Signal.State or Signal.Computed that s-ray relies on.
+ */
+export interface StandardSignal<T> {
+  get(): T;
+}
+
+interface SignalState<T> extends StandardSignal<T> {
+  set(value: T): void;
+}
+
+interface SignalWatcher {
+  watch(...signals: StandardSignal<unknown>[]): void;
+  unwatch(...signals: StandardSignal<unknown>[]): void;
+  getPending(): StandardSignal<unknown>[];
+}
+
+interface SignalNamespace {
+  State: new<T>(value: T, options?: { equals?: (a: T, b: T) => boolean }) => SignalState<T>;
+  Computed: new<T>(computation: () => T) => StandardSignal<T>;
+  subtle: {
+    Watcher: new(notify: () => void) => SignalWatcher,
+    untrack<T>(cb: () => T): T,
+    currentComputed(): StandardSignal<unknown> | undefined,
+    introspectSources(sink: StandardSignal<unknown>): unknown[],
+  };
+}
+
+function getSignal(): SignalNamespace | undefined {
+  return (globalThis as any).Signal;
+}
+
+// The Signal.Computed wrapping the s-ray getters, they are tracked by the s-ray deps instead
+const ownComputeds = new WeakSet<StandardSignal<unknown>>();
+
+// Notifying a Signal.State with equals always returning false, no matter what value it is set to
+const depsStates = new WeakMap<Deps, SignalState<undefined>>();
+
+/**
+ * Whether a standard Signal.Computed other than the s-ray getters is being evaluated.
+ */
+export function isSignalTracking() {
+  const Signal = getSignal();
+  if (!Signal) {
+    return false;
+  }
+  const current = Signal.subtle.currentComputed();
+  return !!current && !ownComputeds.has(current);
+}
+
+export function trackSignal(deps: Deps) {
+  if (!isSignalTracking()) {
+    return;
+  }
+  let state = depsStates.get(deps);
+  if (!state) {
+    state = new (getSignal()!).State(undefined, { equals: () => false });
+    depsStates.set(deps, state);
+  }
+  state.get();
+}
+
+export function triggerSignal(deps: Deps) {
+  depsStates.get(deps)?.set(undefined);
+}
+
+export function untrackSignals<T>(fn: () => T): T {
+  const Signal = getSignal();
+  return Signal ? Signal.subtle.untrack(fn) : fn();
+}
+
+// The getter wrappers being watched, by target and specifier
+const targetWrappers = new WeakMap<Target, Map<Specifier, StandardSignal<unknown>>>();
+// The target and specifier to be notified when a wrapper becomes dirty
+const wrapperDeps = new WeakMap<StandardSignal<unknown>, Deps>();
+let watcher: SignalWatcher | null = null;
+let isFlushQueued = false;
+
+function getWatcher(Signal: SignalNamespace) {
+  if (!watcher) {
+    watcher = new Signal.subtle.Watcher(() => {
+      // The signals can be neither read nor written inside the notify callback
+      if (!isFlushQueued) {
+        isFlushQueued = true;
+        queueMicrotask(flushSignalUpdates);
+      }
+    });
+  }
+  return watcher;
+}
+
+function flushSignalUpdates() {
+  isFlushQueued = false;
+  const pending = watcher!.getPending();
+  pending.forEach(wrapper => {
+    watcher!.unwatch(wrapper);
+    const deps = wrapperDeps.get(wrapper);
+    deps && trigger(deps);
+  });
+  // Re-arm the watcher so that it is notified again
+  watcher!.watch();
+}
+
+/**
+ * Run the getter inside a Signal.Computed, the target is notified when one of the standard signals it reads changes.
+ */
+export function runWithSignals<T>(target: Target, specifier: Specifier, fn: () => T): T {
+  const Signal = getSignal();
+  if (!Signal) {
+    return fn();
+  }
+  let result!: T;
+  const wrapper = new Signal.Computed(() => {
+    result = fn();
+  });
+  ownComputeds.add(wrapper);
+  // The getter of an outer wrapper, e.g. a template reading a computed, must not depend on this wrapper
+  Signal.subtle.untrack(() => wrapper.get());
+
+  releaseSignals(target, specifier);
+  if (Signal.subtle.introspectSources(wrapper).length > 0) {
+    let wrappers = targetWrappers.get(target);
+    if (!wrappers) {
+      wrappers = new Map();
+      targetWrappers.set(target, wrappers);
+    }
+    wrappers.set(specifier, wrapper);
+    wrapperDeps.set(wrapper, new Map([[target, new Set([specifier])]]));
+    getWatcher(Signal).watch(wrapper);
+  }
+  return result;
+}
+
+/**
+ * Whether the getters of the target read standard signals.
+ */
+export function hasSignalSources(target: Target) {
+  return !!targetWrappers.get(target)?.size;
+}
+
+export function releaseSignals(target: Target, specifier: Specifier) {
+  const wrappers = targetWrappers.get(target);
+  const wrapper = wrappers?.get(specifier);
+  if (wrapper) {
+    wrappers!.delete(specifier);
+    watcher!.unwatch(wrapper);
+  }
+}
+
+/**
+ * @public
+ * Expose a ref, a computed or a getter as a standard Signal.Computed, e.g. to be watched by a Signal.subtle.Watcher.
+ * It requires an implementation of the TC39 Signals proposal on globalThis.Signal.
+ */
+export function toSignal<T>(source: { readonly value: T } | (() => T)): StandardSignal<T> {
+  const Signal = getSignal();
+  if (!Signal) {
+    __ENV__ === 'development' && error('toSignal() requires an implementation of the TC39 Signals on globalThis.Signal');
+    return { get: () => (typeof source === 'function' ? source() : source.value) };
+  }
+  return new Signal.Computed(() => (typeof source === 'function' ? source() : source.value));
+}
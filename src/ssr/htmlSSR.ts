@@ -2,13 +2,16 @@ import { SRayElement } from '../defineElement.js';
 import {
   DynamicInterpolators,
   FunctionInterpolator,
+  RefInterpolator,
   Template,
   bindingRE,
   childrenAnchor,
   getTemplateMetadata,
   isFuncInterpolator,
+  isValueInterpolator,
+  readValueInterpolator,
 } from '../html.js';
-import { popReactiveContextStack, pushReactiveContextStack } from '../reactive.js';
+import { runInReactiveContext } from '../reactive.js';
 import { error, isArray, sanitizeHtml } from '../utils.js';
 import { customElements } from './customElements.js';
 
@@ -438,7 +441,7 @@ class SSRTemplate {
       const dynamicPartSpecifier = m[0];
       const dId = m[1];
       const dynamicInterpolator = this.#dynamicPartToGetterMap.get(dynamicPartSpecifier);
-      const value = isFuncInterpolator(dynamicInterpolator)
+      const value = isValueInterpolator(dynamicInterpolator)
         ? this.#runGetter(dynamicInterpolator, dynamicPartSpecifier)
         : dynamicInterpolator;
 
@@ -515,9 +518,14 @@ class SSRTemplate {
         dynamicPartSpecifiers.push(dynamicPartSpecifier);
 
         const getter = this.#dynamicPartToGetterMap.get(dynamicPartSpecifier);
-        if (!isFuncInterpolator(getter)) {
-          __ENV__ === 'development' &&
-            error(`Invalid binding, you must provide a function as a value getter for the attribute "${attr.name}"`);
+        // The event handlers and the ref setters are called rather than read
+        const isCallback = bindingType === BindingType.Event || bindingType === BindingType.Ref;
+        if (!isValueInterpolator(getter) || (isCallback && !isFuncInterpolator(getter))) {
+          __ENV__ === 'development' && error(
+            `Invalid binding, you must provide a function${
+              isCallback ? '' : ' or a ref'
+            } as a value getter for the attribute "${attr.name}"`,
+          );
           return result;
         }
 
@@ -573,14 +581,8 @@ class SSRTemplate {
   update(_specifier: string) {}
   isInUse = true;
 
-  #runGetter(getter: FunctionInterpolator, dynamicPartSpecifier: string) {
-    pushReactiveContextStack({
-      target: this,
-      specifier: dynamicPartSpecifier,
-    });
-    const value = getter();
-    popReactiveContextStack();
-    return value;
+  #runGetter(getter: FunctionInterpolator | RefInterpolator, dynamicPartSpecifier: string) {
+    return runInReactiveContext(this, dynamicPartSpecifier, () => readValueInterpolator(getter));
   }
 }
 
@@ -45,6 +45,20 @@ defineElement({
   },
 });
 
+defineElement({
+  name: 'my-label',
+  setup() {
+    const label = ref('foo');
+    const length = computed(() => label.value.length);
+
+    return {
+      template: html`
+        <p title=${label} :count=${length} @click=${() => label.value += 'o'}>${label}: ${length}</p>
+      `,
+    };
+  },
+});
+
 defineElement({
   name: 'my-app',
   setup() {
@@ -174,4 +188,18 @@ describe('hydrating', () => {
     myApp.remove();
     expect(fakeOnDisconnectedOfMyComponent.callCount).to.equal(1);
   });
+
+  it('should hydrate the refs and computeds bound directly', async () => {
+    const myLabel = document.querySelector('my-label')!;
+    const p = myLabel.shadowRoot!.querySelector('p')! as HTMLParagraphElement & { count: number };
+    expect(p.title).to.equal('foo');
+    expect(p.count).to.equal(3);
+    expect(p.textContent).to.equal('foo: 3');
+
+    p.click();
+    await nextTick();
+    expect(p.title).to.equal('fooo');
+    expect(p.count).to.equal(4);
+    expect(p.textContent).to.equal('fooo: 4');
+  });
 });
@@ -1,4 +1,5 @@
 import { expect } from '@esm-bundle/chai';
+import { stub } from 'sinon';
 
 import { css } from '../css.js';
 import { defineBooleanAttr, defineNumberAttr, defineStringAttr } from '../defineAttributes.js';
@@ -7,6 +8,7 @@ import { defineProperty } from '../defineProperty.js';
 import { domRef } from '../domRef.js';
 import { html, unsafeHtml } from '../html.js';
 import { computed, ref } from '../reactive.js';
+import { createStoreContainer, defineStore } from '../store.js';
 
 describe('SSR', function() {
   it('render to string, attribute, boolean attribute, event binding, ref, property binding', async () => {
@@ -262,4 +264,57 @@ describe('SSR', function() {
           <!--10-]--></template>
     `.trim());
   });
+
+  it('every request has its own store instances within a store container', async () => {
+    const useCounter = defineStore('ssr-counter', () => ({ count: ref(0) }));
+    const MyCounter = defineElement({
+      name: 'my-counter',
+      setup() {
+        const counter = useCounter();
+        counter.count++;
+        return {
+          template: html`<p>${() => counter.count}</p>`,
+        };
+      },
+    });
+
+    const render = () => {
+      const myCounter = new MyCounter();
+      myCounter.connectedCallback();
+      return myCounter.toString();
+    };
+    const first = createStoreContainer().run(render);
+    const second = createStoreContainer().run(render);
+    // The anchors differ, the count is 1 for both of them
+    expect(first).to.include('-->1<!--');
+    expect(second).to.include('-->1<!--');
+
+    const consoleError = stub(console, 'error');
+    render();
+    consoleError.restore();
+    expect(consoleError.callCount).to.equal(1);
+    expect(consoleError.firstCall.args[0]).to.include('outside of a store container');
+  });
+
+  it('refs and computeds are rendered like getters', async () => {
+    const MyLabel = defineElement({
+      name: 'my-label',
+      setup() {
+        const label = ref('foo');
+        const hidden = ref(true);
+        const length = computed(() => label.value.length);
+        return {
+          template: html`<p title=${label} ?hidden=${hidden}>${label} ${length}</p>`,
+        };
+      },
+    });
+
+    const myLabel = new MyLabel();
+    myLabel.connectedCallback();
+    const output = myLabel.toString();
+    expect(output).to.include('title="foo"');
+    expect(output).to.include(' hidden>');
+    expect(output).to.include('-->foo<!--');
+    expect(output).to.include('-->3<!--');
+  });
 });
@@ -0,0 +1,185 @@
+import { expect } from '@esm-bundle/chai';
+import { fake } from 'sinon';
+
+import { effectScope } from './effectScope.js';
+import { batch, computed, ref, watch } from './reactive.js';
+import { nextTick } from './scheduler.js';
+import { StoreActionContext, createStoreContainer, defineStore } from './store.js';
+
+function counterSetup() {
+  const count = ref(0);
+  const todos = ref<string[]>([]);
+  const double = computed(() => count.value * 2);
+  function increment() {
+    count.value++;
+    return count.value;
+  }
+  return { count, todos, double, increment };
+}
+
+describe('store', () => {
+  it('shares a single instance per id, the refs and computeds are unwrapped', async () => {
+    const useCounter = defineStore('store-spec-instance', counterSetup);
+    const counter = useCounter();
+    expect(useCounter()).to.equal(counter);
+    expect(counter.$id).to.equal('store-spec-instance');
+    expect(counter.count).to.equal(0);
+
+    const cb = fake();
+    watch(() => counter.double, cb);
+    expect(counter.increment()).to.equal(1);
+    counter.count = 2;
+    expect(counter.double).to.equal(4);
+    await nextTick();
+    expect(cb.callCount).to.equal(1);
+    expect(cb.firstCall.args[0]).to.equal(4);
+  });
+
+  it('passes every mutation to the subscribers, a patch is a single mutation', () => {
+    const counter = defineStore('store-spec-subscribe', counterSetup)();
+    const cb = fake();
+    const scope = effectScope();
+    scope.run(() => counter.$subscribe(cb));
+
+    counter.count = 1;
+    counter.todos.push('a');
+    counter.$patch({ count: 2, todos: ['b'] });
+    counter.$patch(state => {
+      state.count++;
+      state.todos.push('c');
+    });
+    expect(cb.args.map(([mutation]) => [mutation.type, mutation.changes])).to.eql([
+      ['direct', { count: 1 }],
+      ['direct', { todos: ['a'] }],
+      ['patch object', { count: 2, todos: ['b'] }],
+      ['patch function', { count: 3, todos: ['b', 'c'] }],
+    ]);
+    expect(cb.lastCall.args[1]).to.eql({ count: 3, todos: ['b', 'c'] });
+    expect(counter.$state).to.eql({ count: 3, todos: ['b', 'c'] });
+
+    scope.stop();
+    counter.count = 4;
+    expect(cb.callCount).to.equal(4);
+  });
+
+  it('records a patch made within a batch as a single mutation', () => {
+    const counter = defineStore('store-spec-batch', counterSetup)();
+    const cb = fake();
+    counter.$subscribe(cb);
+
+    batch(() => {
+      counter.$patch({ count: 1 });
+      counter.$patch(state => state.todos.push('a'));
+    });
+    batch(() => {
+      counter.count = 2;
+      counter.count = 3;
+      counter.$patch(state => {
+        state.todos = ['b'];
+        state.todos.push('c');
+      });
+    });
+    expect(cb.args.map(([mutation]) => [mutation.type, mutation.changes])).to.eql([
+      ['patch object', { count: 1 }],
+      ['patch function', { todos: ['a'] }],
+      ['patch function', { todos: ['b', 'c'] }],
+      ['direct', { count: 3 }],
+    ]);
+
+    // The nested objects assigned by a patch are collected as well
+    counter.todos.push('d');
+    expect(cb.lastCall.args[0].type).to.equal('direct');
+    expect(cb.callCount).to.equal(5);
+  });
+
+  it('$reset() restores the initial state', () => {
+    const counter = defineStore('store-spec-reset', counterSetup)();
+    counter.$patch({ count: 1, todos: ['a'] });
+    counter.$reset();
+    expect(counter.$state).to.eql({ count: 0, todos: [] });
+
+    // The initial state is not altered by the mutations after a reset
+    counter.todos.push('b');
+    counter.$reset();
+    expect(counter.todos).to.eql([]);
+  });
+
+  it('notifies the action subscribers before and after the actions, and about their errors', async () => {
+    const useStore = defineStore('store-spec-actions', () => {
+      const count = ref(0);
+      return {
+        count,
+        add: (n: number) => count.value += n,
+        fail: () => {
+          throw new Error('sync');
+        },
+        fetch: async (fail: boolean) => {
+          if (fail) {
+            throw new Error('async');
+          }
+          return 'data';
+        },
+      };
+    });
+    const store = useStore();
+    const after = fake();
+    const onError = fake();
+    const before = fake((context: StoreActionContext) => {
+      context.after(after);
+      context.onError(onError);
+    });
+    store.$onAction(before);
+
+    expect(store.add(2)).to.equal(2);
+    expect(before.firstCall.args[0]).to.include({ name: 'add' });
+    expect(before.firstCall.args[0].args).to.eql([2]);
+    expect(after.args).to.eql([[2]]);
+
+    expect(() => store.fail()).to.throw('sync');
+    expect(onError.firstCall.args[0].message).to.equal('sync');
+
+    expect(await store.fetch(false)).to.equal('data');
+    expect(after.lastCall.args).to.eql(['data']);
+    let err: Error | null = null;
+    await store.fetch(true).catch((e: Error) => err = e);
+    expect(err!.message).to.equal('async');
+    expect(onError.lastCall.args[0]).to.equal(err);
+    expect(before.callCount).to.equal(4);
+  });
+
+  it('logs the mutations, and replays them for time travel', () => {
+    const counter = defineStore('store-spec-log', counterSetup)();
+    const cb = fake();
+    counter.$subscribe(cb);
+    counter.count = 1;
+    counter.todos.push('a');
+    counter.count = 2;
+    expect(counter.$log.map(mutation => mutation.changes)).to.eql([{ count: 1 }, { todos: ['a'] }, { count: 2 }]);
+
+    counter.$replay(1);
+    expect(counter.$state).to.eql({ count: 1, todos: [] });
+    counter.$replay(2);
+    expect(counter.$state).to.eql({ count: 1, todos: ['a'] });
+    counter.$replay(0);
+    expect(counter.$state).to.eql({ count: 0, todos: [] });
+    counter.$replay(3);
+    expect(counter.$state).to.eql({ count: 2, todos: ['a'] });
+    expect(counter.$log.length).to.equal(3);
+    expect(cb.callCount).to.equal(3);
+  });
+
+  it('creates the instances per store container', () => {
+    const useCounter = defineStore('store-spec-container', counterSetup);
+    const first = createStoreContainer();
+    const second = createStoreContainer();
+
+    const counter = first.run(() => useCounter());
+    counter.count = 1;
+    expect(first.run(() => useCounter())).to.equal(counter);
+    expect(second.run(() => useCounter()).count).to.equal(0);
+    expect(useCounter()).not.to.equal(counter);
+
+    first.dispose();
+    expect(first.run(() => useCounter())).not.to.equal(counter);
+  });
+});
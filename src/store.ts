@@ -0,0 +1,390 @@
+import { EffectScope, effectScope, getCurrentScope } from './effectScope.js';
+import {
+  ComputedRef,
+  ReadonlyRef,
+  Ref,
+  Target,
+  batch,
+  cleanupTarget,
+  isComputed,
+  isReadonly,
+  runInReactiveContext,
+  snapshot,
+  traverse,
+  untrack,
+  watch,
+} from './reactive.js';
+import { Priority } from './scheduler.js';
+import { error } from './utils.js';
+
+/**
+ * @public
+ * The state of a store, made of the refs returned by its setup function.
+ */
+export type StoreState<S> = {
+  [K in keyof S as S[K] extends Ref<any> ? K : never]: S[K] extends Ref<infer V> ? V : never;
+};
+
+/**
+ * @public
+ * A computed or a readonly ref returned by the setup function of a store.
+ */
+export type StoreGetter<V = any> = ComputedRef<V> | ReadonlyRef<V>;
+
+/**
+ * @public
+ * The keys of the getters exposed as readonly properties, i.e. all of them but the writable computeds.
+ * TypeScript ignores the readonly modifiers when matching the types, so a writable computed is told apart
+ * by comparing its value property with a writable one.
+ */
+export type StoreGetterKeys<S> = {
+  [K in keyof S]: S[K] extends StoreGetter
+    ? (<T>() => T extends Pick<S[K], 'value'> ? 1 : 2) extends (<T>() => T extends { value: S[K]['value'] } ? 1 : 2)
+      ? never
+      : K
+    : never;
+}[keyof S];
+
+/**
+ * @public
+ * The refs and computeds returned by the setup function are unwrapped, the functions are the actions.
+ */
+export type UnwrapStoreSetup<S> =
+  & {
+    -readonly [K in keyof S as K extends StoreGetterKeys<S> ? never : K]: S[K] extends Ref<infer V> ? V
+      : S[K] extends StoreGetter<infer V> ? V
+      : S[K];
+  }
+  & {
+    readonly [K in keyof S as K extends StoreGetterKeys<S> ? K : never]: S[K] extends StoreGetter<infer V> ? V
+      : never;
+  };
+
+/**
+ * @public
+ */
+export interface StoreMutation {
+  storeId: string;
+  type: 'direct' | 'patch object' | 'patch function' | 'reset';
+  /**
+   * The snapshots of the state keys changed by the mutation.
+   */
+  changes: Record<string, unknown>;
+  timestamp: number;
+}
+
+/**
+ * @public
+ */
+export interface StoreActionContext {
+  name: string;
+  args: unknown[];
+  /**
+   * Register a callback to be called with the result of the action, after the returned Promise resolves if any.
+   */
+  after(cb: (result: unknown) => void): void;
+  /**
+   * Register a callback to be called with the error thrown by the action, or the rejection of the returned Promise.
+   */
+  onError(cb: (err: unknown) => void): void;
+}
+
+/**
+ * @public
+ */
+export interface StoreMethods<S> {
+  readonly $id: string;
+  /**
+   * A plain snapshot of the state.
+   */
+  readonly $state: StoreState<S>;
+  /**
+   * Dev only, the mutations of the state in order, they can be replayed by $replay().
+   */
+  readonly $log: readonly StoreMutation[];
+  /**
+   * Assign the given state keys, they are recorded as a single mutation.
+   */
+  $patch(partialState: Partial<StoreState<S>>): void;
+  /**
+   * Mutate the state in the function, the changes are recorded as a single mutation.
+   */
+  $patch(mutator: (state: StoreState<S>) => void): void;
+  /**
+   * Restore the initial state.
+   */
+  $reset(): void;
+  /**
+   * Dev only, restore the initial state and apply the first given number of mutations of the log,
+   * the replayed mutations are neither logged nor passed to the subscribers.
+   */
+  $replay(count: number): void;
+  /**
+   * Call the callback after every mutation of the state, it is unsubscribed when the current effect scope is stopped.
+   */
+  $subscribe(cb: (mutation: StoreMutation, state: StoreState<S>) => void): () => void;
+  /**
+   * Call the callback before every action, it is unsubscribed when the current effect scope is stopped.
+   */
+  $onAction(cb: (context: StoreActionContext) => void): () => void;
+}
+
+/**
+ * @public
+ */
+export type Store<S> = UnwrapStoreSetup<S> & StoreMethods<S>;
+
+function createStore<S extends object>(id: string, setup: () => S): Store<S> {
+  const setupResult = setup();
+  const store = {} as Store<S>;
+  const stateRefs: Record<string, Ref<unknown>> = {};
+  const actionSubscribers = new Set<(context: StoreActionContext) => void>();
+  const mutationSubscribers = new Set<(mutation: StoreMutation, state: StoreState<S>) => void>();
+  const log: StoreMutation[] = [];
+
+  function wrapAction(name: string, action: (...args: unknown[]) => unknown) {
+    return (...args: unknown[]) => {
+      const afterCbs: ((result: unknown) => void)[] = [];
+      const errorCbs: ((err: unknown) => void)[] = [];
+      actionSubscribers.forEach(cb =>
+        cb({
+          name,
+          args,
+          after: afterCb => afterCbs.push(afterCb),
+          onError: errorCb => errorCbs.push(errorCb),
+        })
+      );
+      const onError = (err: unknown) => {
+        errorCbs.forEach(cb => cb(err));
+        throw err;
+      };
+      let result: unknown;
+      try {
+        result = action(...args);
+      } catch (err) {
+        onError(err);
+      }
+      if (result instanceof Promise) {
+        return result.then(value => {
+          afterCbs.forEach(cb => cb(value));
+          return value;
+        }, onError);
+      }
+      afterCbs.forEach(cb => cb(result));
+      return result;
+    };
+  }
+
+  Object.entries(setupResult).forEach(([key, value]) => {
+    if (value instanceof Ref && !isReadonly(value)) {
+      stateRefs[key] = value;
+    }
+    if (value instanceof Ref || isComputed(value)) {
+      Object.defineProperty(store, key, {
+        get: () => value.value,
+        // Writing a readonly computed is rejected by the computed itself
+        set: (newValue: unknown) => {
+          (value as Ref<unknown>).value = newValue;
+        },
+        enumerable: true,
+      });
+    } else {
+      (store as any)[key] = typeof value === 'function' ? wrapAction(key, value) : value;
+    }
+  });
+
+  const getState = () => snapshot(stateRefs) as StoreState<S>;
+  const initialState: Record<string, unknown> = getState();
+
+  // The state keys changed by the ongoing $patch() or $reset()
+  let patchedKeys: Set<string> | null = null;
+  // The state keys changed outside of them, and not recorded yet
+  const directKeys = new Set<string>();
+  let isReplaying = false;
+  let isRecording = false;
+
+  function record(type: StoreMutation['type'], keys: Iterable<string>) {
+    const changes: Record<string, unknown> = {};
+    for (const key of keys) {
+      changes[key] = snapshot(stateRefs[key].value);
+    }
+    const mutation: StoreMutation = { storeId: id, type, changes, timestamp: Date.now() };
+    __ENV__ === 'development' && log.push(mutation);
+    if (mutationSubscribers.size > 0) {
+      const state = getState();
+      mutationSubscribers.forEach(cb => cb(mutation, state));
+    }
+  }
+
+  // The changed keys are collected as soon as they are written, the watchers would only run once the outer batch
+  // of a $patch() ends, after it has been recorded
+  const collector: Target = {
+    update(key) {
+      if (isRecording && !isReplaying) {
+        (patchedKeys || directKeys).add(key);
+      }
+      // Subscribe the nested objects assigned by the change
+      collectKey(key);
+    },
+    isInUse: true,
+    isSync: true,
+  };
+  const collectKey = (key: string) => runInReactiveContext(collector, key, () => traverse(stateRefs[key]));
+  getCurrentScope()?.addCleanup(() => {
+    collector.isInUse = false;
+    cleanupTarget(collector);
+  });
+
+  // Every direct change is recorded right away, the changes made within a batch are recorded once
+  Object.entries(stateRefs).forEach(([key, stateRef]) => {
+    collectKey(key);
+    watch(stateRef, () => {
+      directKeys.delete(key) && record('direct', [key]);
+    }, { deep: true, priority: Priority.Immediate });
+  });
+  isRecording = true;
+
+  function patch(type: StoreMutation['type'], mutator: () => void) {
+    patchedKeys = new Set();
+    try {
+      batch(mutator);
+    } finally {
+      const keys = patchedKeys;
+      patchedKeys = null;
+      keys.size > 0 && record(type, keys);
+    }
+  }
+
+  function assignState(state: Record<string, unknown>) {
+    Object.keys(state).forEach(key => {
+      // The state must not share anything with the given snapshot, e.g. the initial state or the log
+      stateRefs[key].value = snapshot(state[key]);
+    });
+  }
+
+  function subscribe<T>(subscribers: Set<T>, cb: T) {
+    subscribers.add(cb);
+    const unsubscribe = () => {
+      subscribers.delete(cb);
+    };
+    getCurrentScope()?.addCleanup(unsubscribe);
+    return unsubscribe;
+  }
+
+  Object.defineProperties(store, {
+    $id: { value: id },
+    $state: { get: getState },
+    $log: { value: log },
+  });
+  Object.assign(store, {
+    $patch(partialStateOrMutator: Partial<StoreState<S>> | ((state: StoreState<S>) => void)) {
+      if (typeof partialStateOrMutator === 'function') {
+        patch('patch function', () => partialStateOrMutator(store as StoreState<S>));
+      } else {
+        patch('patch object', () => Object.assign(store, partialStateOrMutator));
+      }
+    },
+    $reset() {
+      patch('reset', () => assignState(initialState));
+    },
+    $replay(count: number) {
+      if (__ENV__ !== 'development') {
+        return;
+      }
+      isReplaying = true;
+      try {
+        batch(() => {
+          assignState(initialState);
+          log.slice(0, count).forEach(mutation => assignState(mutation.changes));
+        });
+      } finally {
+        isReplaying = false;
+      }
+    },
+    $subscribe(cb: (mutation: StoreMutation, state: StoreState<S>) => void) {
+      return subscribe(mutationSubscribers, cb);
+    },
+    $onAction(cb: (context: StoreActionContext) => void) {
+      return subscribe(actionSubscribers, cb);
+    },
+  });
+
+  return store;
+}
+
+let activeStoreContainer: StoreContainer | null = null;
+
+/**
+ * @public
+ * A store container holds an instance of every store used while it is active. The default container is used
+ * when none is active, in SSR every request should render within its own container, so that the requests
+ * don't share their state.
+ */
+export class StoreContainer {
+  #stores: Map<string, Store<any>> = new Map();
+  // Collects the watchers and computeds created by the setup functions of the stores
+  #scope: EffectScope = effectScope(true);
+
+  run<T>(fn: () => T): T {
+    const previousContainer = activeStoreContainer;
+    activeStoreContainer = this;
+    try {
+      return fn();
+    } finally {
+      activeStoreContainer = previousContainer;
+    }
+  }
+
+  /**
+   * Returns the instance of the store, it is created by the setup function when it is used for the first time.
+   */
+  resolve<S extends object>(id: string, setup: () => S): Store<S> {
+    let store = this.#stores.get(id) as Store<S> | undefined;
+    if (!store) {
+      // The store outlives the element using it first, and the getter using it must not subscribe its setup
+      store = this.#scope.run(() => untrack(() => createStore(id, setup)))!;
+      this.#stores.set(id, store);
+    }
+    return store;
+  }
+
+  /**
+   * Stop the watchers and computeds of all the stores, and drop the instances.
+   */
+  dispose() {
+    this.#scope.stop();
+    this.#scope = effectScope(true);
+    this.#stores.clear();
+  }
+}
+
+const defaultStoreContainer = new StoreContainer();
+
+/**
+ * @public
+ */
+export function createStoreContainer() {
+  return new StoreContainer();
+}
+
+/**
+ * @public
+ * Define a store shared by the whole application, the setup function is called once per store container,
+ * the refs it returns are the state, the computeds are the getters and the functions are the actions:
+ * ```ts
+ * const useCounter = defineStore('counter', () => {
+ *   const count = ref(0);
+ *   const double = computed(() => count.value * 2);
+ *   const increment = () => count.value++;
+ *   return { count, double, increment };
+ * });
+ * ```
+ */
+export function defineStore<S extends object>(id: string, setup: () => S): () => Store<S> {
+  return () => {
+    if (__ENV__ === 'development' && __SSR__ && !activeStoreContainer) {
+      error(`The store "${id}" is used outside of a store container, its state is shared by all the requests.`);
+    }
+    return (activeStoreContainer || defaultStoreContainer).resolve(id, setup);
+  };
+}
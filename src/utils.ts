@@ -51,3 +51,19 @@ export function hypheToCamel<S extends string>(str: S): HyphenToCamelCase<S> {
 export function isObject(value: any): value is Record<string, any> {
   return value !== null && typeof value === 'object';
 }
+
+export function isPlainObject(value: any): value is Record<string, any> {
+  if (!isObject(value)) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+export function hasOwn(value: object, key: PropertyKey) {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+export function isIntegerKey(key: unknown): key is string {
+  return typeof key === 'string' && key !== 'NaN' && key[0] !== '-' && String(parseInt(key, 10)) === key;
+}
@@ -40,6 +40,11 @@ const entryHTML = `
       </ul>
     <!--0-]--></template>
   </my-app>
+  <my-label>
+    <template shadowrootmode="open"><!--[8--->
+        <p #title="$$--dynamic0--$$" title="foo" :count="$$--dynamic1--$$" @click="$$--dynamic2--$$"><!--%8-3-->foo<!--8-3%--><!--^-->: <!--%9-4-->3<!--9-4%--><!--^--></p>
+      <!--8-]--></template>
+  </my-label>
 </body>
 
 </html>